@@ -0,0 +1,57 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+
+import { POST as claim } from '../route';
+import { POST } from './route';
+
+const CODE = 'tiger-maple';
+
+const lookup = (verifier: string, address: string) =>
+  POST(
+    new Request(`http://localhost/api/codes/${CODE}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'X-Forwarded-For': address,
+      },
+      body: JSON.stringify({ verifier }),
+    }),
+    { params: Promise.resolve({ code: CODE }) },
+  );
+
+describe('POST /api/codes/[code]', () => {
+  beforeEach(async () => {
+    globalThis.__roomStore = undefined;
+    await claim(
+      new Request('http://localhost/api/codes', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          code: CODE,
+          kind: 'room',
+          id: 'room-1',
+          sealed: 'sealed',
+          verifier: 'right',
+        }),
+      }),
+    );
+  });
+
+  it('throttles a caller who keeps guessing wrong', async () => {
+    for (let i = 0; i < 3; i++) {
+      expect((await lookup('wrong', '10.0.0.1')).status).toBe(403);
+    }
+    expect((await lookup('right', '10.0.0.1')).status).toBe(429);
+  });
+
+  it('still answers other callers after wrong guesses', async () => {
+    for (let i = 0; i < 4; i++) await lookup('wrong', '10.0.0.1');
+
+    const response = await lookup('right', '10.0.0.2');
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({
+      kind: 'room',
+      id: 'room-1',
+      sealed: 'sealed',
+    });
+  });
+});
@@ -0,0 +1,73 @@
+import { NextResponse } from 'next/server';
+
+import { createHash } from 'node:crypto';
+
+import { getRateLimitKey } from '@/lib/network';
+import { getRoomStore } from '@/lib/room-store';
+
+// Lookups one caller may make per window, so codes cannot be enumerated
+const MAX_LOOKUPS = 10;
+const LOOKUP_WINDOW = 60 * 1000; // 1 minute
+// Passphrases one caller may try against a code per window
+const MAX_GUESSES = 3;
+const GUESS_WINDOW = 10 * 60 * 1000; // 10 minutes
+// Passphrases everyone together may try against a code per window, in case
+// callers cannot be told apart, e.g. without a trusted proxy
+const MAX_CODE_GUESSES = 50;
+
+// POST rather than GET, so the verifier stays out of URLs and access logs
+export async function POST(
+  req: Request,
+  { params }: { params: Promise<{ code: string }> },
+) {
+  const { code } = await params;
+  const { verifier } = (await req.json()) as { verifier?: string };
+  const store = getRoomStore();
+
+  const client = getRateLimitKey(req);
+  if (
+    (await store.incrementCounter(`lookup:${client}`, LOOKUP_WINDOW)) >
+    MAX_LOOKUPS
+  ) {
+    return NextResponse.json(
+      { error: 'Too many attempts, wait a minute and try again' },
+      { status: 429 },
+    );
+  }
+
+  const target = /^[a-z]+-[a-z]+$/.test(code)
+    ? await store.resolveCode(code)
+    : null;
+  if (!target || !verifier) {
+    return NextResponse.json(
+      { error: 'This code does not exist or has expired' },
+      { status: 404 },
+    );
+  }
+
+  // Every try counts before the words are checked, so a caller learns
+  // nothing once over budget. Keyed by the verifier too, so a code issued
+  // again starts afresh.
+  const guessKey = `guess:${code}:${target.verifierHash}`;
+  const [mine, everyone] = await Promise.all([
+    store.incrementCounter(`${guessKey}:${client}`, GUESS_WINDOW),
+    store.incrementCounter(guessKey, GUESS_WINDOW),
+  ]);
+  if (mine > MAX_GUESSES || everyone > MAX_CODE_GUESSES) {
+    return NextResponse.json(
+      { error: 'Too many tries for this code, wait a few minutes' },
+      { status: 429 },
+    );
+  }
+
+  const verifierHash = createHash('sha256').update(verifier).digest('hex');
+  if (verifierHash !== target.verifierHash) {
+    return NextResponse.json(
+      { error: 'The words in this code do not match' },
+      { status: 403 },
+    );
+  }
+
+  const { kind, id, sealed } = target;
+  return NextResponse.json({ kind, id, sealed });
+}
@@ -0,0 +1,51 @@
+import { NextResponse } from 'next/server';
+
+import { createHash } from 'node:crypto';
+
+import {
+  SHORT_CODE_TTL,
+  type ShortCodeTarget,
+  getRoomStore,
+} from '@/lib/room-store';
+
+// Well above the ~60 characters a sealed key and invite token take
+const MAX_SEALED_LENGTH = 4096;
+
+// The browser picks the lookup words, since they salt the passphrase; the
+// verifier proves the passphrase on lookup and is only kept hashed
+export async function POST(req: Request) {
+  const { code, kind, id, sealed, verifier } = (await req.json()) as Partial<
+    Omit<ShortCodeTarget, 'verifierHash'>
+  > & { code?: string; verifier?: string };
+
+  if (
+    !code ||
+    !/^[a-z]+-[a-z]+$/.test(code) ||
+    (kind !== 'peer' && kind !== 'room') ||
+    !id ||
+    !sealed ||
+    sealed.length > MAX_SEALED_LENGTH ||
+    !verifier
+  ) {
+    return NextResponse.json(
+      { error: 'code, kind, id, sealed and verifier are required' },
+      { status: 400 },
+    );
+  }
+
+  const verifierHash = createHash('sha256').update(verifier).digest('hex');
+  const claimed = await getRoomStore().claimCode(code, {
+    kind,
+    id,
+    sealed,
+    verifierHash,
+  });
+  if (!claimed) {
+    return NextResponse.json(
+      { error: 'That code is taken, pick another' },
+      { status: 409 },
+    );
+  }
+
+  return NextResponse.json({ code, ttl: SHORT_CODE_TTL / 1000 });
+}
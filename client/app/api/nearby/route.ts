@@ -0,0 +1,129 @@
+import { NextResponse } from 'next/server';
+
+import { createHash, randomBytes } from 'node:crypto';
+
+import type { NearbyAnnouncement, NearbyEntry } from '@/lib/nearby';
+import { getNetworkGroup } from '@/lib/network';
+import {
+  type NearbyRecord,
+  PEER_TTL,
+  getRoomStore,
+  pruneNearby,
+} from '@/lib/room-store';
+
+// Nearby groups are keyed by the caller's signed public address. Entries name
+// a peer to ask for access, never a link: the key only travels peer-to-peer
+// once the owner lets someone in.
+
+// Keeps one network from flooding everyone's home page
+const MAX_NEARBY_ENTRIES = 20;
+
+const hashOwnerToken = (token: string) =>
+  createHash('sha256').update(token).digest('hex');
+
+const ownerTokenOf = (req: Request) => {
+  const header = req.headers.get('authorization') ?? '';
+  return header.startsWith('Bearer ') ? header.slice(7) : null;
+};
+
+const isOwner = (req: Request, record: NearbyRecord) => {
+  const token = ownerTokenOf(req);
+  return !!token && hashOwnerToken(token) === record.ownerTokenHash;
+};
+
+const unavailable = () =>
+  NextResponse.json(
+    { error: 'Nearby discovery is not available on this server' },
+    { status: 503 },
+  );
+
+export async function GET(req: Request) {
+  const group = getNetworkGroup(req);
+  if (!group) return NextResponse.json({ entries: [] });
+
+  const records = await pruneNearby(getRoomStore(), group);
+  const entries: NearbyEntry[] = records.map(({ peerId, name, kind }) => ({
+    peerId,
+    name,
+    kind,
+  }));
+
+  return NextResponse.json({ entries });
+}
+
+// Heartbeat: lists the caller's sender or room until it stops calling. The
+// first call issues the owner token every later call has to present.
+export async function PUT(req: Request) {
+  const group = getNetworkGroup(req);
+  if (!group) return unavailable();
+
+  const { peerId, name, kind } =
+    (await req.json()) as Partial<NearbyAnnouncement>;
+
+  if (!peerId || !name || (kind !== 'peer' && kind !== 'room')) {
+    return NextResponse.json(
+      { error: 'peerId, name and kind are required' },
+      { status: 400 },
+    );
+  }
+
+  const store = getRoomStore();
+  const records = await pruneNearby(store, group);
+  const existing = records.find((record) => record.peerId === peerId);
+
+  if (existing && !isOwner(req, existing)) {
+    return NextResponse.json(
+      { error: 'Only the owner can update this entry' },
+      { status: 403 },
+    );
+  }
+  if (!existing && records.length >= MAX_NEARBY_ENTRIES) {
+    return NextResponse.json(
+      { error: 'Too many devices are visible on this network' },
+      { status: 429 },
+    );
+  }
+
+  let ownerToken: string | undefined;
+  let ownerTokenHash = existing?.ownerTokenHash;
+  if (!ownerTokenHash) {
+    // A token from an entry that lapsed is taken back rather than replaced
+    ownerToken = ownerTokenOf(req) ?? randomBytes(32).toString('base64url');
+    ownerTokenHash = hashOwnerToken(ownerToken);
+  }
+
+  await store.upsertNearby(group, {
+    peerId,
+    name,
+    kind,
+    ownerTokenHash,
+    updatedAt: Date.now(),
+  });
+
+  return NextResponse.json({ ttl: PEER_TTL / 1000, ownerToken });
+}
+
+export async function DELETE(req: Request) {
+  const group = getNetworkGroup(req);
+  if (!group) return unavailable();
+
+  const { peerId } = (await req.json()) as { peerId?: string };
+
+  if (!peerId) {
+    return NextResponse.json({ error: 'peerId is required' }, { status: 400 });
+  }
+
+  const store = getRoomStore();
+  const existing = (await store.listNearby(group)).find(
+    (record) => record.peerId === peerId,
+  );
+  if (existing && !isOwner(req, existing)) {
+    return NextResponse.json(
+      { error: 'Only the owner can remove this entry' },
+      { status: 403 },
+    );
+  }
+  if (existing) await store.removeNearby(group, peerId);
+
+  return NextResponse.json({ ok: true });
+}
@@ -0,0 +1,120 @@
+import { NextResponse } from 'next/server';
+
+import { getMemberClaims, verifyToken } from '@/lib/room-auth';
+import {
+  type PeerEntry,
+  type RoomEvent,
+  diffPeers,
+  getRoomStore,
+  onRoomChange,
+  pruneRoom,
+} from '@/lib/room-store';
+
+export const dynamic = 'force-dynamic';
+
+// Catches changes made by other server instances and evicts silent peers
+const POLL_INTERVAL = 5000;
+
+const encoder = new TextEncoder();
+
+const formatEvent = (event: string, data: unknown) =>
+  encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+
+// Streams authoritative membership changes for a room as server-sent events
+export async function GET(
+  req: Request,
+  { params }: { params: Promise<{ roomId: string }> },
+) {
+  const { roomId } = await params;
+  const store = getRoomStore();
+
+  // EventSource cannot set headers, so the member token may come as ?token=
+  const token = new URL(req.url).searchParams.get('token');
+  const headerClaims = getMemberClaims(req, roomId);
+  const queryClaims = verifyToken(token, 'member');
+  const isMember = !!headerClaims || queryClaims?.roomId === roomId;
+  if ((await store.getPasswordHash(roomId)) && !isMember) {
+    return NextResponse.json(
+      { error: 'Room membership required' },
+      { status: 401 },
+    );
+  }
+
+  let peers: PeerEntry[] = [];
+  let refreshing = false;
+  let refreshAgain = false;
+  let stop = () => {};
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const write = (chunk: Uint8Array) => {
+        try {
+          controller.enqueue(chunk);
+        } catch {
+          stop();
+        }
+      };
+
+      // One store read at a time; changes during a read trigger one more
+      const refresh = async () => {
+        if (refreshing) {
+          refreshAgain = true;
+          return;
+        }
+        refreshing = true;
+        try {
+          do {
+            refreshAgain = false;
+            const next = await pruneRoom(store, roomId);
+            diffPeers(peers, next).forEach((event: RoomEvent) =>
+              write(formatEvent(event.type, event)),
+            );
+            peers = next;
+          } while (refreshAgain);
+        } catch (error) {
+          console.error('Failed to refresh room events:', error);
+        } finally {
+          refreshing = false;
+        }
+      };
+
+      const unsubscribe = onRoomChange(roomId, () => void refresh());
+      const timer = setInterval(() => {
+        // Comment line doubles as a keep-alive for proxies
+        write(encoder.encode(': ping\n\n'));
+        void refresh();
+      }, POLL_INTERVAL);
+
+      stop = () => {
+        clearInterval(timer);
+        unsubscribe();
+        try {
+          controller.close();
+        } catch {
+          // Already closed by the client
+        }
+      };
+      req.signal.addEventListener('abort', () => stop());
+
+      refreshing = true;
+      try {
+        peers = await pruneRoom(store, roomId);
+        write(formatEvent('snapshot', { type: 'snapshot', peers }));
+      } finally {
+        refreshing = false;
+      }
+      if (refreshAgain) void refresh();
+    },
+    cancel() {
+      stop();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+    },
+  });
+}
@@ -0,0 +1,113 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { MEMBER_TOKEN_TTL } from '@/lib/room-auth';
+import { PEER_TTL, getRoomStore } from '@/lib/room-store';
+
+import { DELETE, POST } from './route';
+
+const ROOM_ID = 'room-1';
+const params = Promise.resolve({ roomId: ROOM_ID });
+
+const request = (
+  method: string,
+  body: Record<string, unknown>,
+  memberToken?: string,
+) =>
+  new Request(`http://localhost/api/rooms/${ROOM_ID}/peers`, {
+    method,
+    headers: {
+      'Content-Type': 'application/json',
+      ...(memberToken ? { Authorization: `Bearer ${memberToken}` } : {}),
+    },
+    body: JSON.stringify(body),
+  });
+
+const join = async (body: Record<string, unknown>, memberToken?: string) => {
+  const response = await POST(request('POST', body, memberToken), { params });
+  return { status: response.status, body: await response.json() };
+};
+
+const leave = (peerId: string, memberToken: string) =>
+  DELETE(request('DELETE', { peerId }, memberToken), { params });
+
+describe('POST /api/rooms/[roomId]/peers', () => {
+  beforeEach(() => {
+    globalThis.__roomStore = undefined;
+    vi.useFakeTimers({ toFake: ['Date'] });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('keeps the password after the last peer leaves', async () => {
+    const created = await join({ peerId: 'a', name: 'A', password: 'secret' });
+    await leave('a', created.body.memberToken);
+
+    const stranger = await join({ peerId: 'b', name: 'B' });
+    expect(stranger.status).toBe(401);
+  });
+
+  it('keeps the password after every peer went stale', async () => {
+    const created = await join({ peerId: 'a', name: 'A', password: 'secret' });
+    vi.setSystemTime(Date.now() + PEER_TTL + 1000);
+
+    const stranger = await join({ peerId: 'b', name: 'B' });
+    expect(stranger.status).toBe(401);
+
+    const rejoined = await join(
+      { peerId: 'a', name: 'A' },
+      created.body.memberToken,
+    );
+    expect(rejoined.status).toBe(200);
+    expect(rejoined.body.isProtected).toBe(true);
+  });
+
+  it('keeps the password while its tokens are valid', async () => {
+    const created = await join({ peerId: 'a', name: 'A', password: 'secret' });
+    await leave('a', created.body.memberToken);
+    vi.setSystemTime(Date.now() + MEMBER_TOKEN_TTL);
+
+    expect(await getRoomStore().getPasswordHash(ROOM_ID)).not.toBeNull();
+    const stranger = await join({ peerId: 'b', name: 'B' });
+    expect(stranger.status).toBe(401);
+  });
+
+  it('does not reopen a lost protected room from a member token', async () => {
+    const created = await join({ peerId: 'a', name: 'A', password: 'secret' });
+    // E.g. a restarted memory store, while tokens stay valid
+    globalThis.__roomStore = undefined;
+
+    const rejoined = await join(
+      { peerId: 'a', name: 'A' },
+      created.body.memberToken,
+    );
+    expect(rejoined.status).toBe(410);
+    expect(await getRoomStore().listPeers(ROOM_ID)).toEqual([]);
+  });
+
+  it('does not reopen a lost protected room from an invite token', async () => {
+    const created = await join({ peerId: 'a', name: 'A', password: 'secret' });
+    globalThis.__roomStore = undefined;
+
+    const invited = await join({
+      peerId: 'b',
+      name: 'B',
+      inviteToken: created.body.inviteToken,
+    });
+    expect(invited.status).toBe(410);
+    expect(await getRoomStore().listPeers(ROOM_ID)).toEqual([]);
+  });
+
+  it('lets a member reopen an open room', async () => {
+    const created = await join({ peerId: 'a', name: 'A' });
+    await leave('a', created.body.memberToken);
+
+    const rejoined = await join(
+      { peerId: 'a', name: 'A' },
+      created.body.memberToken,
+    );
+    expect(rejoined.status).toBe(200);
+    expect(rejoined.body.isProtected).toBe(false);
+  });
+});
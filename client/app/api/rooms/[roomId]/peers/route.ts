@@ -1,43 +1,35 @@
 import { NextResponse } from 'next/server';
 
-type PeerEntry = {
-  peerId: string;
-  name: string;
-  updatedAt: number;
-};
-
-type Registry = Map<string, Map<string, PeerEntry>>;
-
-declare global {
-  var __roomRegistry: Registry | undefined;
-}
-
-const registry: Registry = globalThis.__roomRegistry || new Map();
-globalThis.__roomRegistry = registry;
-
-const pruneRoom = (roomId: string) => {
-  const roomPeers = registry.get(roomId);
-  if (!roomPeers) return;
-
-  const now = Date.now();
-  roomPeers.forEach((entry, key) => {
-    if (now - entry.updatedAt > 1000 * 60 * 60) {
-      roomPeers.delete(key);
-    }
-  });
-
-  if (roomPeers.size === 0) {
-    registry.delete(roomId);
-  }
-};
+import {
+  createInviteToken,
+  createMemberToken,
+  getMemberClaims,
+  hashPassword,
+  verifyPassword,
+  verifyToken,
+} from '@/lib/room-auth';
+import {
+  PEER_TTL,
+  getRoomStore,
+  notifyRoom,
+  pruneRoom,
+} from '@/lib/room-store';
 
 export async function GET(
-  _: Request,
+  req: Request,
   { params }: { params: Promise<{ roomId: string }> },
 ) {
   const { roomId } = await params;
-  pruneRoom(roomId);
-  const peers = Array.from(registry.get(roomId)?.values() ?? []);
+  const store = getRoomStore();
+  const peers = await pruneRoom(store, roomId);
+
+  if ((await store.getPasswordHash(roomId)) && !getMemberClaims(req, roomId)) {
+    return NextResponse.json(
+      { error: 'Room membership required' },
+      { status: 401 },
+    );
+  }
+
   return NextResponse.json({ peers });
 }
 
@@ -46,9 +38,11 @@ export async function POST(
   { params }: { params: Promise<{ roomId: string }> },
 ) {
   const { roomId } = await params;
-  const { peerId, name } = (await req.json()) as {
+  const { peerId, name, password, inviteToken } = (await req.json()) as {
     peerId?: string;
     name?: string;
+    password?: string;
+    inviteToken?: string;
   };
 
   if (!peerId || !name) {
@@ -58,12 +52,95 @@ export async function POST(
     );
   }
 
-  const roomPeers = registry.get(roomId) ?? new Map<string, PeerEntry>();
-  roomPeers.set(peerId, { peerId, name, updatedAt: Date.now() });
-  registry.set(roomId, roomPeers);
+  const store = getRoomStore();
+  const roomPeers = await pruneRoom(store, roomId);
+  let passwordHash = await store.getPasswordHash(roomId);
+  const invite = verifyToken(inviteToken, 'invite');
+  const member = getMemberClaims(req, roomId);
+
+  if (passwordHash) {
+    const isAllowed =
+      invite?.roomId === roomId ||
+      member?.peerId === peerId ||
+      (!!password && verifyPassword(password, passwordHash));
+
+    if (!isAllowed) {
+      return NextResponse.json(
+        {
+          error: password
+            ? 'Incorrect room password'
+            : 'This room requires a password or invite link',
+        },
+        { status: password ? 403 : 401 },
+      );
+    }
+  } else if (
+    !password &&
+    ((invite?.roomId === roomId && invite.isProtected) || member?.isProtected)
+  ) {
+    // Its password lapsed with the room; a token alone must not reopen it
+    // unprotected
+    return NextResponse.json(
+      { error: 'This room has expired' },
+      { status: 410 },
+    );
+  } else if (password && roomPeers.length === 0) {
+    // The first peer of a new room may protect it with a password
+    passwordHash = hashPassword(password);
+    await store.setPasswordHash(roomId, passwordHash);
+  }
 
-  const peers = Array.from(roomPeers.values());
-  return NextResponse.json({ peers });
+  const entry = { peerId, name, updatedAt: Date.now() };
+  await store.upsertPeer(roomId, entry);
+  notifyRoom(roomId);
+
+  const peers = [...roomPeers.filter((peer) => peer.peerId !== peerId), entry];
+  return NextResponse.json({
+    peers,
+    isProtected: !!passwordHash,
+    ttl: PEER_TTL / 1000,
+    memberToken: createMemberToken(roomId, peerId, !!passwordHash),
+    inviteToken: createInviteToken(roomId, !!passwordHash),
+  });
+}
+
+// Heartbeat: keeps the caller listed and returns who else is still alive
+export async function PUT(
+  req: Request,
+  { params }: { params: Promise<{ roomId: string }> },
+) {
+  const { roomId } = await params;
+  const { peerId } = (await req.json()) as { peerId?: string };
+
+  if (!peerId) {
+    return NextResponse.json({ error: 'peerId is required' }, { status: 400 });
+  }
+
+  const store = getRoomStore();
+  const passwordHash = await store.getPasswordHash(roomId);
+  if (passwordHash && getMemberClaims(req, roomId)?.peerId !== peerId) {
+    return NextResponse.json(
+      { error: 'Room membership required' },
+      { status: 401 },
+    );
+  }
+
+  const peers = await pruneRoom(store, roomId);
+  const entry = peers.find((peer) => peer.peerId === peerId);
+  if (!entry) {
+    // Evicted after missing heartbeats; the client has to join again
+    return NextResponse.json({ error: 'Peer not in room' }, { status: 404 });
+  }
+
+  entry.updatedAt = Date.now();
+  await store.upsertPeer(roomId, entry);
+
+  // A fresh token each beat, so sessions outlast the token's lifetime
+  return NextResponse.json({
+    peers,
+    ttl: PEER_TTL / 1000,
+    memberToken: createMemberToken(roomId, peerId, !!passwordHash),
+  });
 }
 
 export async function DELETE(
@@ -77,14 +154,23 @@ export async function DELETE(
     return NextResponse.json({ error: 'peerId is required' }, { status: 400 });
   }
 
-  const roomPeers = registry.get(roomId);
-  if (roomPeers) {
-    roomPeers.delete(peerId);
-    if (roomPeers.size === 0) {
-      registry.delete(roomId);
-    }
+  const store = getRoomStore();
+  if (
+    (await store.getPasswordHash(roomId)) &&
+    getMemberClaims(req, roomId)?.peerId !== peerId
+  ) {
+    return NextResponse.json(
+      { error: 'Room membership required' },
+      { status: 401 },
+    );
+  }
+
+  const remaining = await store.removePeer(roomId, peerId);
+  if (remaining === 0) {
+    await store.deleteRoom(roomId);
   }
+  notifyRoom(roomId);
 
-  const peers = Array.from(registry.get(roomId)?.values() ?? []);
+  const peers = await store.listPeers(roomId);
   return NextResponse.json({ peers });
 }
@@ -0,0 +1,26 @@
+import { NextResponse } from 'next/server';
+
+import { verifyToken } from '@/lib/room-auth';
+
+// Lets peers check the membership proof carried in a `join` message
+export async function POST(
+  req: Request,
+  { params }: { params: Promise<{ roomId: string }> },
+) {
+  const { roomId } = await params;
+  const { peerId, proof } = (await req.json()) as {
+    peerId?: string;
+    proof?: string;
+  };
+
+  if (!peerId || !proof) {
+    return NextResponse.json(
+      { error: 'peerId and proof are required' },
+      { status: 400 },
+    );
+  }
+
+  const claims = verifyToken(proof, 'member');
+  const valid = claims?.roomId === roomId && claims.peerId === peerId;
+  return NextResponse.json({ valid });
+}
@@ -1,7 +1,7 @@
 'use client';
 
 import { useRouter } from 'next/navigation';
-import { KeyboardEvent, useState } from 'react';
+import { KeyboardEvent, useEffect, useState } from 'react';
 
 import {
   Button,
@@ -12,12 +12,64 @@ import {
   Divider,
   Input,
 } from '@heroui/react';
-import { Plus, Users } from 'lucide-react';
+import { Hash, Link2, Plus, Radar, Users } from 'lucide-react';
+
+import {
+  NEARBY_POLL_INTERVAL,
+  type NearbyEntry,
+  listNearby,
+  requestAccess,
+} from '@/lib/nearby';
+import { resolveShortCode } from '@/lib/short-code';
 
 export default function HomePage() {
   const [roomId, setRoomId] = useState('');
+  const [code, setCode] = useState('');
+  const [codeError, setCodeError] = useState('');
+  const [isResolving, setIsResolving] = useState(false);
+  const [nearby, setNearby] = useState<NearbyEntry[]>([]);
+  // The nearby peer we are waiting on, and what came of the last request
+  const [askingPeerId, setAskingPeerId] = useState<string | null>(null);
+  const [nearbyError, setNearbyError] = useState('');
   const router = useRouter();
 
+  // Senders and rooms on the same network that chose to be visible
+  useEffect(() => {
+    let cancelled = false;
+    const poll = async () => {
+      try {
+        const entries = await listNearby();
+        if (!cancelled) setNearby(entries);
+      } catch (error) {
+        console.error('Failed to list nearby devices', error);
+      }
+    };
+
+    void poll();
+    const timer = setInterval(poll, NEARBY_POLL_INTERVAL);
+    return () => {
+      cancelled = true;
+      clearInterval(timer);
+    };
+  }, []);
+
+  // The listing holds no link; the owner has to hand it over peer-to-peer
+  const askNearby = async (entry: NearbyEntry) => {
+    setAskingPeerId(entry.peerId);
+    setNearbyError('');
+    try {
+      const link = await requestAccess(entry.peerId);
+      if (link) {
+        router.push(link);
+        return;
+      }
+      setNearbyError(`${entry.name} declined the request.`);
+    } catch (error) {
+      setNearbyError((error as Error).message);
+    }
+    setAskingPeerId(null);
+  };
+
   const createRoom = () => {
     const newRoomId = Math.random().toString(36).substring(2, 10);
     router.push(`/room/${newRoomId}`);
@@ -29,6 +81,19 @@ export default function HomePage() {
     }
   };
 
+  // Short codes lead to a direct link or a room, whichever they were made for
+  const openCode = async () => {
+    if (!code.trim()) return;
+    setIsResolving(true);
+    setCodeError('');
+    try {
+      router.push(await resolveShortCode(code));
+    } catch (error) {
+      setCodeError((error as Error).message);
+      setIsResolving(false);
+    }
+  };
+
   return (
     <div className="flex h-screen w-full items-center justify-center">
       <Card className="w-full max-w-md shadow-lg">
@@ -42,6 +107,45 @@ export default function HomePage() {
           </p>
         </CardHeader>
         <CardBody className="space-y-4">
+          {nearby.length > 0 && (
+            <div className="space-y-2">
+              <div className="text-default-500 flex items-center gap-2 text-sm">
+                <Radar className="h-4 w-4" />
+                <span>Nearby on your network</span>
+              </div>
+              {nearby.map((entry) => (
+                <Button
+                  key={entry.peerId}
+                  onPress={() => askNearby(entry)}
+                  variant="flat"
+                  color="secondary"
+                  className="w-full justify-start"
+                  isLoading={askingPeerId === entry.peerId}
+                  isDisabled={!!askingPeerId && askingPeerId !== entry.peerId}
+                  startContent={
+                    entry.kind === 'room' ? (
+                      <Users className="h-5 w-5 shrink-0" />
+                    ) : (
+                      <Link2 className="h-5 w-5 shrink-0" />
+                    )
+                  }
+                >
+                  <span className="truncate">
+                    {askingPeerId === entry.peerId
+                      ? 'Waiting for them to allow it...'
+                      : entry.kind === 'room'
+                        ? entry.name
+                        : `Receive ${entry.name}`}
+                  </span>
+                </Button>
+              ))}
+              {nearbyError && (
+                <p className="text-danger text-center text-xs">{nearbyError}</p>
+              )}
+              <Divider />
+            </div>
+          )}
+
           <Button
             onPress={createRoom}
             size="lg"
@@ -50,6 +154,14 @@ export default function HomePage() {
           >
             Create New Room
           </Button>
+          <Button
+            onPress={() => router.push('/send')}
+            size="lg"
+            variant="flat"
+            startContent={<Link2 className="h-5 w-5" />}
+          >
+            Send via Direct Link
+          </Button>
 
           <div className="relative flex items-center justify-center py-2">
             <Divider className="absolute" />
@@ -75,6 +187,31 @@ export default function HomePage() {
               Join Room
             </Button>
           </div>
+
+          <div className="flex flex-col gap-3">
+            <Input
+              label="Share code"
+              placeholder="e.g. tiger-maple-ocean-lemon"
+              value={code}
+              isInvalid={!!codeError}
+              errorMessage={codeError}
+              onChange={(e) => {
+                setCode(e.target.value);
+                setCodeError('');
+              }}
+              onKeyDown={(e: KeyboardEvent) => e.key === 'Enter' && openCode()}
+            />
+            <Button
+              onPress={openCode}
+              size="lg"
+              variant="bordered"
+              isLoading={isResolving}
+              isDisabled={!code.trim()}
+              startContent={!isResolving && <Hash className="h-5 w-5" />}
+            >
+              Enter Code
+            </Button>
+          </div>
         </CardBody>
       </Card>
     </div>
@@ -2,14 +2,16 @@ import Room from '@/components/Room';
 
 type RoomPageProps = {
   params: Promise<{ roomId: string }>;
+  searchParams: Promise<{ invite?: string }>;
 };
 
-const RoomPage: React.FC<RoomPageProps> = async ({ params }) => {
+const RoomPage: React.FC<RoomPageProps> = async ({ params, searchParams }) => {
   const { roomId } = await params;
+  const { invite } = await searchParams;
 
   return (
     <div className="flex min-h-screen w-full items-center justify-center">
-      <Room roomId={roomId} />
+      <Room roomId={roomId} inviteToken={invite} />
     </div>
   );
 };
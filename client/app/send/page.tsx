@@ -0,0 +1,9 @@
+import Sender from '@/components/Sender';
+
+const SendPage: React.FC = () => (
+  <div className="flex min-h-screen w-full items-center justify-center">
+    <Sender />
+  </div>
+);
+
+export default SendPage;
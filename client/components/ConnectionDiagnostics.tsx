@@ -0,0 +1,153 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+
+import {
+  Chip,
+  Table,
+  TableBody,
+  TableCell,
+  TableColumn,
+  TableHeader,
+  TableRow,
+} from '@heroui/react';
+import type { DataConnection } from 'peerjs';
+
+import { type ConnectionStats, readConnectionStats } from '@/lib/telemetry';
+import { formatBytes } from '@/lib/utils';
+
+const POLL_INTERVAL = 1000;
+
+type ConnectionDiagnosticsProps = {
+  peers: { peerId: string; name: string }[];
+  // Looked up on every poll, as connections come and go
+  getConnection: (peerId: string) => DataConnection | undefined;
+  // Bytes sent to a peer that it has not acknowledged yet
+  getInFlight?: (peerId: string) => number;
+};
+
+type PeerSample = ConnectionStats & {
+  at: number;
+  upload: number;
+  download: number;
+  inFlight: number | null;
+};
+
+// Direct paths are fastest; relay means the traffic goes through a TURN server
+const PATH_COLORS: Record<string, 'success' | 'primary' | 'warning'> = {
+  host: 'success',
+  srflx: 'primary',
+  prflx: 'primary',
+  relay: 'warning',
+};
+
+/** Live getStats() readout for each peer connection, polled while mounted. */
+export default function ConnectionDiagnostics({
+  peers,
+  getConnection,
+  getInFlight,
+}: ConnectionDiagnosticsProps) {
+  const [samples, setSamples] = useState<Map<string, PeerSample>>(new Map());
+  const samplesRef = useRef(samples);
+  const peersRef = useRef(peers);
+  const getConnectionRef = useRef(getConnection);
+  const getInFlightRef = useRef(getInFlight);
+
+  useEffect(() => {
+    peersRef.current = peers;
+    getConnectionRef.current = getConnection;
+    getInFlightRef.current = getInFlight;
+  });
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const poll = async () => {
+      const next = new Map<string, PeerSample>();
+      await Promise.all(
+        peersRef.current.map(async ({ peerId }) => {
+          const conn = getConnectionRef.current(peerId);
+          if (!conn?.open) return;
+          const stats = await readConnectionStats(conn).catch(() => null);
+          if (!stats) return;
+
+          const now = Date.now();
+          const last = samplesRef.current.get(peerId);
+          const elapsed = last ? (now - last.at) / 1000 : 0;
+          next.set(peerId, {
+            ...stats,
+            at: now,
+            upload: last ? (stats.bytesSent - last.bytesSent) / elapsed : 0,
+            download: last
+              ? (stats.bytesReceived - last.bytesReceived) / elapsed
+              : 0,
+            inFlight: getInFlightRef.current?.(peerId) ?? null,
+          });
+        }),
+      );
+      if (cancelled) return;
+      samplesRef.current = next;
+      setSamples(next);
+    };
+
+    void poll();
+    const timer = setInterval(poll, POLL_INTERVAL);
+    return () => {
+      cancelled = true;
+      clearInterval(timer);
+    };
+  }, []);
+
+  return (
+    <Table aria-label="Connection diagnostics" removeWrapper isCompact>
+      <TableHeader>
+        <TableColumn>Peer</TableColumn>
+        <TableColumn>Path</TableColumn>
+        <TableColumn>RTT</TableColumn>
+        <TableColumn>Upload</TableColumn>
+        <TableColumn>Download</TableColumn>
+        <TableColumn>Buffered</TableColumn>
+        <TableColumn>In flight</TableColumn>
+      </TableHeader>
+      <TableBody emptyContent="No open connections">
+        {peers
+          .filter(({ peerId }) => samples.has(peerId))
+          .map(({ peerId, name }) => {
+            const sample = samples.get(peerId)!;
+            return (
+              <TableRow key={peerId}>
+                <TableCell>{name}</TableCell>
+                <TableCell>
+                  <Chip
+                    size="sm"
+                    variant="flat"
+                    color={PATH_COLORS[sample.remoteType ?? ''] ?? 'default'}
+                  >
+                    {sample.localType ?? '?'} → {sample.remoteType ?? '?'}
+                    {sample.protocol ? ` · ${sample.protocol}` : ''}
+                  </Chip>
+                </TableCell>
+                <TableCell className="whitespace-nowrap">
+                  {sample.rtt !== null ? `${Math.round(sample.rtt)} ms` : '—'}
+                </TableCell>
+                <TableCell className="whitespace-nowrap">
+                  {formatBytes(sample.upload)}/s
+                </TableCell>
+                <TableCell className="whitespace-nowrap">
+                  {formatBytes(sample.download)}/s
+                </TableCell>
+                <TableCell className="whitespace-nowrap">
+                  {formatBytes(sample.buffered)}
+                </TableCell>
+                <TableCell className="whitespace-nowrap">
+                  {sample.inFlight !== null
+                    ? formatBytes(sample.inFlight)
+                    : '—'}
+                </TableCell>
+              </TableRow>
+            );
+          })}
+      </TableBody>
+    </Table>
+  );
+}
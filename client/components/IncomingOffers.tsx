@@ -0,0 +1,79 @@
+'use client';
+
+import { Button } from '@heroui/react';
+import { File as FileIcon, Folder, Inbox } from 'lucide-react';
+
+import type { OfferAnswer } from '@/lib/offers';
+import type { FileMetadata } from '@/lib/room-protocol';
+import { formatBytes } from '@/lib/utils';
+
+type IncomingOffersProps<T extends { metadata: FileMetadata }> = {
+  // Offers answered together, e.g. every file of one folder, by group key
+  groups: [string, T[]][];
+  onAnswer: (offers: T[], answer: OfferAnswer) => void;
+};
+
+/** Files other members offered us that we have not answered yet. */
+export default function IncomingOffers<T extends { metadata: FileMetadata }>({
+  groups,
+  onAnswer,
+}: IncomingOffersProps<T>) {
+  if (groups.length === 0) return null;
+
+  return (
+    <div className="bg-warning-50 border-warning-200 space-y-3 rounded-xl border p-5">
+      <div className="flex items-center gap-2">
+        <div className="from-warning-100 to-warning-200 flex h-8 w-8 items-center justify-center rounded-lg bg-linear-to-br">
+          <Inbox className="text-warning h-5 w-5" />
+        </div>
+        <h5 className="text-lg font-semibold">Incoming Files</h5>
+      </div>
+      {groups.map(([key, offers]) => {
+        const { metadata } = offers[0];
+        const size = offers.reduce((sum, o) => sum + o.metadata.size, 0);
+        return (
+          <div
+            key={key}
+            className="bg-content1 border-default-200 flex items-center gap-3 rounded-lg border p-3"
+          >
+            {metadata.bundle ? (
+              <Folder className="text-primary h-6 w-6 shrink-0" />
+            ) : (
+              <FileIcon className="text-primary h-6 w-6 shrink-0" />
+            )}
+            <div className="min-w-0 flex-1">
+              <p className="line-clamp-1 text-sm font-semibold">
+                {metadata.bundle?.name ?? metadata.name}
+              </p>
+              <p className="text-default-500 line-clamp-1 text-xs">
+                {metadata.bundle
+                  ? `Folder · ${offers.length} of ${metadata.bundle.count} files · ${formatBytes(size)}`
+                  : formatBytes(size)}
+                {!metadata.bundle && metadata.type ? ` · ${metadata.type}` : ''}
+                {` · from ${metadata.senderName}`}
+              </p>
+            </div>
+            <Button
+              size="sm"
+              color="success"
+              variant="flat"
+              radius="lg"
+              onPress={() => onAnswer(offers, 'accepted')}
+            >
+              Accept
+            </Button>
+            <Button
+              size="sm"
+              color="danger"
+              variant="light"
+              radius="lg"
+              onPress={() => onAnswer(offers, 'declined')}
+            >
+              Decline
+            </Button>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,51 @@
+'use client';
+
+import { Button } from '@heroui/react';
+import { Radar } from 'lucide-react';
+import type { DataConnection } from 'peerjs';
+
+type NearbyRequestsProps = {
+  requests: DataConnection[];
+  // What the nearby device is asking for, e.g. "these files"
+  subject: string;
+  onAnswer: (conn: DataConnection, allow: boolean) => void;
+};
+
+/** Devices on the same network that picked us from their nearby list. */
+export default function NearbyRequests({
+  requests,
+  subject,
+  onAnswer,
+}: NearbyRequestsProps) {
+  if (requests.length === 0) return null;
+
+  return (
+    <div className="space-y-2">
+      {requests.map((conn) => (
+        <div
+          key={conn.connectionId}
+          className="bg-secondary-50 border-secondary-100 flex items-center gap-3 rounded-xl border px-4 py-3"
+        >
+          <Radar className="text-secondary h-5 w-5 shrink-0" />
+          <span className="text-default-600 flex-1 text-sm">
+            A nearby device ({conn.peer.slice(0, 8)}) asks for {subject}
+          </span>
+          <Button
+            size="sm"
+            variant="flat"
+            onPress={() => onAnswer(conn, false)}
+          >
+            Deny
+          </Button>
+          <Button
+            size="sm"
+            color="secondary"
+            onPress={() => onAnswer(conn, true)}
+          >
+            Allow
+          </Button>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,171 @@
+'use client';
+
+import { useState } from 'react';
+
+import { Button, Chip, Input, Tooltip } from '@heroui/react';
+import { GripVertical, ListOrdered, X } from 'lucide-react';
+
+import type { BundleRef } from '@/lib/room-protocol';
+import {
+  DEFAULT_SEND_CONCURRENCY,
+  type QueueState,
+  type QueuedSend,
+} from '@/lib/send-queue';
+import { formatBytes } from '@/lib/utils';
+
+type SendTarget = {
+  bundle?: BundleRef;
+  recipientIds?: string[];
+};
+
+type OutgoingQueueProps<T extends SendTarget> = {
+  items: QueuedSend<T>[];
+  onConcurrencyChange: (concurrency: number) => void;
+  onClearFinished: () => void;
+  // Drops a dragged entry in front of another
+  onMove: (id: string, beforeId: string) => void;
+  onRemove: (id: string) => void;
+};
+
+const STATE_COLORS = {
+  queued: 'default',
+  offered: 'secondary',
+  sending: 'primary',
+  done: 'success',
+  failed: 'danger',
+} as const satisfies Record<QueueState, string>;
+
+const STATE_LABELS: Record<QueueState, string> = {
+  queued: 'Queued',
+  offered: 'Offered',
+  sending: 'Sending',
+  done: 'Done',
+  failed: 'Failed',
+};
+
+/** Files waiting to go out, in the order the user arranged them. */
+export default function OutgoingQueue<T extends SendTarget>({
+  items,
+  onConcurrencyChange,
+  onClearFinished,
+  onMove,
+  onRemove,
+}: OutgoingQueueProps<T>) {
+  const [concurrency, setConcurrency] = useState(
+    String(DEFAULT_SEND_CONCURRENCY),
+  );
+  const [draggedId, setDraggedId] = useState<string | null>(null);
+
+  if (items.length === 0) return null;
+
+  return (
+    <div className="bg-default-50 border-default-100 space-y-3 rounded-xl border p-5">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <div className="from-primary-100 to-primary-200 flex h-8 w-8 items-center justify-center rounded-lg bg-linear-to-br">
+            <ListOrdered className="text-primary h-5 w-5" />
+          </div>
+          <h5 className="text-lg font-semibold">Outgoing Queue</h5>
+        </div>
+        <div className="flex items-center gap-2">
+          <Input
+            size="sm"
+            type="number"
+            min={1}
+            aria-label="Files to send at the same time"
+            value={concurrency}
+            onValueChange={(value) => {
+              setConcurrency(value);
+              onConcurrencyChange(
+                Math.max(
+                  1,
+                  Math.floor(Number(value)) || DEFAULT_SEND_CONCURRENCY,
+                ),
+              );
+            }}
+            endContent={
+              <span className="text-default-400 text-xs whitespace-nowrap">
+                at once
+              </span>
+            }
+            className="max-w-28"
+          />
+          <Button
+            size="sm"
+            variant="flat"
+            radius="lg"
+            isDisabled={
+              !items.some(
+                (item) => item.state === 'done' || item.state === 'failed',
+              )
+            }
+            onPress={onClearFinished}
+          >
+            Clear finished
+          </Button>
+        </div>
+      </div>
+      <div className="space-y-2">
+        {items.map((item) => {
+          const isQueued = item.state === 'queued';
+          return (
+            <div
+              key={item.id}
+              draggable={isQueued}
+              onDragStart={(e) => {
+                e.dataTransfer.effectAllowed = 'move';
+                setDraggedId(item.id);
+              }}
+              onDragOver={(e) => {
+                if (draggedId && isQueued) e.preventDefault();
+              }}
+              onDrop={(e) => {
+                e.preventDefault();
+                if (draggedId) onMove(draggedId, item.id);
+                setDraggedId(null);
+              }}
+              onDragEnd={() => setDraggedId(null)}
+              className={`bg-content1 border-default-200 flex items-center gap-3 rounded-lg border p-3 ${
+                draggedId === item.id ? 'opacity-50' : ''
+              }`}
+            >
+              <GripVertical
+                className={`h-4 w-4 shrink-0 ${
+                  isQueued ? 'text-default-400 cursor-grab' : 'text-default-200'
+                }`}
+              />
+              <div className="min-w-0 flex-1">
+                <p className="line-clamp-1 text-sm font-semibold">
+                  {item.options.bundle?.path ?? item.file.name}
+                </p>
+                <p className="text-default-500 line-clamp-1 text-xs">
+                  {formatBytes(item.file.size)}
+                  {item.options.recipientIds &&
+                    ` · to ${item.options.recipientIds.length} user${
+                      item.options.recipientIds.length !== 1 ? 's' : ''
+                    }`}
+                </p>
+              </div>
+              <Chip size="sm" variant="flat" color={STATE_COLORS[item.state]}>
+                {STATE_LABELS[item.state]}
+              </Chip>
+              {isQueued && (
+                <Tooltip content="Remove from queue" placement="top">
+                  <Button
+                    isIconOnly
+                    size="sm"
+                    variant="light"
+                    radius="lg"
+                    aria-label="Remove from queue"
+                    startContent={<X className="h-4 w-4" />}
+                    onPress={() => onRemove(item.id)}
+                  />
+                </Tooltip>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
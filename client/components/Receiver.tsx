@@ -1,6 +1,6 @@
 'use client';
 
-import { useEffect, useRef, useState } from 'react';
+import { useEffect, useRef, useState, useSyncExternalStore } from 'react';
 
 import {
   Button,
@@ -8,53 +8,191 @@ import {
   CardBody,
   CardFooter,
   CardHeader,
+  Checkbox,
+  Chip,
   Progress,
   addToast,
 } from '@heroui/react';
 import {
+  Activity,
+  Ban,
   CheckCircle2,
   Download,
   File as FileIcon,
+  FolderDown,
   Loader2,
   Share2,
+  ShieldAlert,
+  TimerOff,
   XCircle,
 } from 'lucide-react';
 import type { DataConnection, Peer } from 'peerjs';
 
-import { formatBytes } from '@/lib/utils';
+import ConnectionDiagnostics from '@/components/ConnectionDiagnostics';
+import {
+  type CompressionFormat,
+  DecompressionLimitError,
+  decompressChunk,
+  formatRatio,
+  supportedCompression,
+} from '@/lib/compression';
+import {
+  ENCRYPTION_OVERHEAD,
+  decryptChunk,
+  deriveChunkKey,
+  proveKey,
+  readSecretFromLocation,
+} from '@/lib/encryption';
+import { ChunkVerifier, type IntegrityStatus } from '@/lib/hash';
+import {
+  type FileSink,
+  createFileSink,
+  pickDownloadDirectory,
+  supportsDirectoryPicker,
+} from '@/lib/storage';
+import { TransferMeter } from '@/lib/telemetry';
+import { MAX_CHUNK_SIZE } from '@/lib/transfer';
+import { formatBytes, formatDuration } from '@/lib/utils';
 
-type FileMetadata = {
+// Browser capabilities never change, so there is nothing to subscribe to
+const subscribeToNothing = () => () => {};
+
+// A file the sender offers; the hash follows once it is requested
+type ManifestEntry = {
+  fileId: string;
   name: string;
   size: number;
   type: string;
 };
 
+type FileMetadata = ManifestEntry & {
+  sha256: string;
+};
+
+type Download = {
+  status: 'requested' | 'receiving' | 'done' | 'failed';
+  progress: number;
+  downloadUrl: string | null;
+  integrity: IntegrityStatus;
+  compressionRatio: string | null;
+};
+
+type LinkRejection = 'expired' | 'limit' | 'used' | 'invalid';
+
+const REJECTIONS: Record<
+  LinkRejection,
+  { title: string; description: string; icon: typeof Ban }
+> = {
+  expired: {
+    title: 'Link Expired',
+    description: 'The sender set this link to expire. Ask them for a new one.',
+    icon: TimerOff,
+  },
+  limit: {
+    title: 'Download Limit Reached',
+    description: 'This link has been used as many times as the sender allowed.',
+    icon: Ban,
+  },
+  used: {
+    title: 'Link Already Used',
+    description: 'This was a one-time link and someone has already opened it.',
+    icon: Ban,
+  },
+  invalid: {
+    title: 'Invalid Link Key',
+    description:
+      'The key in this link does not match. Ask the sender to copy the full link again, including the part after #.',
+    icon: ShieldAlert,
+  },
+};
+
 type ReceiverProps = {
   remotePeerId: string;
 };
 
 type PeerData =
-  | { type: 'metadata'; payload: FileMetadata }
-  | { type: 'chunk'; payload: ArrayBuffer; index: number; totalChunks: number }
-  | { type: 'end' };
+  | { type: 'manifest'; payload: { files: ManifestEntry[] } }
+  | {
+      type: 'metadata';
+      payload: FileMetadata;
+      compression?: CompressionFormat;
+    }
+  | {
+      type: 'chunk';
+      payload: ArrayBuffer;
+      index: number;
+      totalChunks: number;
+      hash: string;
+      // Set when the payload was compressed before it was encrypted
+      compression?: CompressionFormat;
+    }
+  | { type: 'end'; payload: { fileId: string } }
+  // The sender only shares its files once we prove we hold the link key
+  | { type: 'challenge'; payload: ArrayBuffer }
+  | { type: 'rejected'; payload: { reason: LinkRejection } };
 
 export default function Receiver({ remotePeerId }: ReceiverProps) {
-  const [fileInfo, setFileInfo] = useState<FileMetadata | null>(null);
+  const [manifest, setManifest] = useState<ManifestEntry[] | null>(null);
+  const [downloads, setDownloads] = useState<Map<string, Download>>(new Map());
+  const [selected, setSelected] = useState<Set<string>>(new Set());
   const [status, setStatus] = useState('Connecting to peer...');
-  const [progress, setProgress] = useState(0);
-  const [downloadUrl, setDownloadUrl] = useState<string | null>(null);
   const [isReceiving, setIsReceiving] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [rejection, setRejection] = useState<LinkRejection | null>(null);
+  const [linkInfo, setLinkInfo] = useState<string | null>(null);
+  const [downloadDirName, setDownloadDirName] = useState<string | null>(null);
+  const [showDiagnostics, setShowDiagnostics] = useState(false);
+  const canPickFolder = useSyncExternalStore(
+    subscribeToNothing,
+    supportsDirectoryPicker,
+    () => false,
+  );
 
   const peerRef = useRef<Peer | null>(null);
   const connRef = useRef<DataConnection | null>(null);
-  const receivedChunksRef = useRef<ArrayBuffer[]>([]);
+  const sinkRef = useRef<FileSink | null>(null);
+  // Finished files whose scratch copies back the download links
+  const finishedSinksRef = useRef<FileSink[]>([]);
+  const downloadDirRef = useRef<FileSystemDirectoryHandle | null>(null);
   const receivedSizeRef = useRef(0);
+  // Bytes that crossed the wire, to report how well compression did
+  const wireSizeRef = useRef(0);
+  const meterRef = useRef<TransferMeter | null>(null);
+  // The file currently streaming; the sender sends one at a time
   const fileInfoRef = useRef<FileMetadata | null>(null);
+  const hasManifestRef = useRef(false);
+  const rejectedRef = useRef(false);
+  const verifierRef = useRef<ChunkVerifier | null>(null);
+  const chunkKeyRef = useRef<CryptoKey | null>(null);
+  // Messages are handled one at a time because decryption is async
+  const inboxRef = useRef<Promise<void>>(Promise.resolve());
+
+  const updateDownload = (fileId: string, patch: Partial<Download>) => {
+    setDownloads((prev) => {
+      const current: Download = prev.get(fileId) ?? {
+        status: 'requested',
+        progress: 0,
+        downloadUrl: null,
+        integrity: 'pending',
+        compressionRatio: null,
+      };
+      return new Map(prev).set(fileId, { ...current, ...patch });
+    });
+  };
 
   useEffect(() => {
     const initPeer = async () => {
+      const secret = readSecretFromLocation();
+      if (!secret) {
+        setError(
+          'This link is missing its encryption key. Ask the sender to copy the full link, including the part after #.',
+        );
+        setStatus('Missing encryption key.');
+        return;
+      }
+
       try {
+        chunkKeyRef.current = await deriveChunkKey(secret, remotePeerId);
         const { default: Peer } = await import('peerjs');
         const peer = new Peer({
           host: process.env.NEXT_PUBLIC_PEER_HOST || '0.peerjs.com',
@@ -82,8 +220,10 @@ export default function Receiver({ remotePeerId }: ReceiverProps) {
 
         const onOpen = () => {
           if (!peerRef.current) return;
+          // The sender reads our decoders from here to pick a compression
           const conn = peerRef.current.connect(remotePeerId, {
             reliable: true,
+            metadata: { compression: supportedCompression() },
           });
           connRef.current = conn;
           setupConnectionHandlers(conn);
@@ -103,58 +243,207 @@ export default function Receiver({ remotePeerId }: ReceiverProps) {
 
         const setupConnectionHandlers = (conn: DataConnection) => {
           conn.on('open', () => {
-            setStatus('Connected! Waiting for file...');
+            setStatus('Connected! Waiting for files...');
+          });
+          conn.on('data', (data) => {
+            inboxRef.current = inboxRef.current.then(() => onData(data));
           });
-          conn.on('data', onData);
           conn.on('close', onClose);
           conn.on('error', onError);
         };
 
-        const onData = (data: unknown) => {
+        const onData = async (data: unknown) => {
           const peerData = data as PeerData;
 
-          if (peerData.type === 'metadata') {
+          if (peerData.type === 'challenge') {
+            connRef.current?.send({
+              type: 'proof',
+              payload: await proveKey(chunkKeyRef.current!, peerData.payload),
+            });
+          } else if (peerData.type === 'rejected') {
+            // The sender's link policy turned us away; this is not an error
+            rejectedRef.current = true;
+            setRejection(peerData.payload.reason);
+            setStatus(REJECTIONS[peerData.payload.reason].title);
+            connRef.current?.close();
+          } else if (peerData.type === 'manifest') {
+            hasManifestRef.current = true;
+            setManifest(peerData.payload.files);
+            setStatus(
+              peerData.payload.files.length > 0
+                ? 'Choose the files you want to download.'
+                : 'Connected! Waiting for files...',
+            );
+          } else if (peerData.type === 'metadata') {
             const metadata = peerData.payload;
             fileInfoRef.current = metadata;
-            setFileInfo(metadata);
             setIsReceiving(true);
             setStatus(`Receiving ${metadata.name}...`);
 
-            // Reset for new file transfer
-            receivedChunksRef.current = [];
+            // A partial file from a stream that never ended is dropped
+            sinkRef.current?.abort();
+            sinkRef.current = createFileSink(
+              {
+                ...metadata,
+                fileId: `${remotePeerId}_${metadata.fileId}_${Date.now()}`,
+              },
+              downloadDirRef.current,
+            );
             receivedSizeRef.current = 0;
-            setDownloadUrl(null);
-            setProgress(0);
-            setError(null);
+            wireSizeRef.current = 0;
+            meterRef.current = new TransferMeter(metadata.size);
+            setLinkInfo(null);
+            verifierRef.current = new ChunkVerifier(metadata.sha256);
+            updateDownload(metadata.fileId, {
+              status: 'receiving',
+              progress: 0,
+              integrity: 'pending',
+              compressionRatio: null,
+            });
           } else if (peerData.type === 'chunk') {
-            const chunk = peerData.payload;
-            receivedChunksRef.current.push(chunk);
-            receivedSizeRef.current += chunk.byteLength;
-
-            if (fileInfoRef.current) {
-              const currentProgress =
-                (receivedSizeRef.current / fileInfoRef.current.size) * 100;
-              setProgress(currentProgress);
+            let chunk: ArrayBuffer | null = null;
+            try {
+              chunk = await decryptChunk(
+                chunkKeyRef.current!,
+                peerData.payload,
+              );
+              if (peerData.compression) {
+                chunk = await decompressChunk(
+                  peerData.compression,
+                  chunk,
+                  Math.min(
+                    MAX_CHUNK_SIZE,
+                    fileInfoRef.current?.size ?? MAX_CHUNK_SIZE,
+                  ),
+                );
+              }
+            } catch (err) {
+              const fileInfo = fileInfoRef.current;
+              if (err instanceof DecompressionLimitError && fileInfo) {
+                // The rest of the stream is ignored once fileInfo is gone
+                sinkRef.current?.abort();
+                sinkRef.current = null;
+                fileInfoRef.current = null;
+                verifierRef.current = null;
+                setIsReceiving(false);
+                updateDownload(fileInfo.fileId, { status: 'failed' });
+                setStatus(`${fileInfo.name} held more data than it declared.`);
+                return;
+              }
+              console.error('Failed to decrypt chunk:', err);
             }
-          } else if (peerData.type === 'end') {
-            if (fileInfoRef.current) {
-              const fileBlob = new Blob(receivedChunksRef.current, {
-                type: fileInfoRef.current.type,
+
+            const chunkOk =
+              !!chunk &&
+              verifierRef.current?.verifyChunk(
+                chunk,
+                peerData.index,
+                peerData.totalChunks,
+                peerData.hash,
+              );
+            const fileInfo = fileInfoRef.current;
+            if (!fileInfo) return;
+            if (chunkOk === false) {
+              updateDownload(fileInfo.fileId, { integrity: 'corrupted' });
+            }
+            if (chunk) {
+              sinkRef.current?.write(chunk);
+            }
+            const wireSize = peerData.payload.byteLength - ENCRYPTION_OVERHEAD;
+            const size = chunk?.byteLength ?? wireSize;
+            receivedSizeRef.current += size;
+            wireSizeRef.current += wireSize;
+            // The sender sizes its chunks from how quickly these come back
+            if (connRef.current?.open) {
+              connRef.current.send({
+                type: 'ack',
+                payload: { index: peerData.index },
               });
-              const url = URL.createObjectURL(fileBlob);
-              setDownloadUrl(url);
-              setStatus('File received! Click to download.');
+            }
+            const meter = meterRef.current;
+            meter?.record(size);
+            if (meter?.rate.current) {
+              const { current, average, eta } = meter.rate;
+              setLinkInfo(
+                [
+                  `${formatBytes(current)}/s`,
+                  eta !== null && `${formatDuration(eta)} left`,
+                  `average ${formatBytes(average)}/s`,
+                  `${formatBytes(wireSize)} chunks`,
+                ]
+                  .filter(Boolean)
+                  .join(' · '),
+              );
+            }
+
+            updateDownload(fileInfo.fileId, {
+              progress: fileInfo.size
+                ? (receivedSizeRef.current / fileInfo.size) * 100
+                : 100,
+              compressionRatio: formatRatio(
+                receivedSizeRef.current,
+                wireSizeRef.current,
+              ),
+            });
+          } else if (peerData.type === 'end') {
+            const sink = sinkRef.current;
+            const fileInfo = fileInfoRef.current;
+            if (fileInfo && sink) {
+              const result = verifierRef.current?.finish() ?? 'corrupted';
+              verifierRef.current = null;
+              fileInfoRef.current = null;
+              sinkRef.current = null;
               setIsReceiving(false);
-              fileInfoRef.current = null; // Reset for next transfer
+
+              sink
+                .close()
+                .then((fileBlob) => {
+                  finishedSinksRef.current.push(sink);
+                  updateDownload(fileInfo.fileId, {
+                    status: 'done',
+                    progress: 100,
+                    integrity: result,
+                    downloadUrl: URL.createObjectURL(fileBlob),
+                  });
+                  setStatus(
+                    result === 'verified'
+                      ? `${fileInfo.name} received and verified.`
+                      : `${fileInfo.name} failed the integrity check.`,
+                  );
+                })
+                .catch((err) => {
+                  console.error('Failed to save received file:', err);
+                  updateDownload(fileInfo.fileId, { status: 'failed' });
+                  setStatus(`Could not save ${fileInfo.name}.`);
+                });
             }
           }
         };
 
         const onClose = () => {
-          // Only show error if a file wasn't successfully received.
-          if (!downloadUrl && !isReceiving) {
+          setIsReceiving(false);
+          if (!rejectedRef.current) {
+            setStatus('Connection closed by peer.');
+          }
+          const fileInfo = fileInfoRef.current;
+          if (fileInfo) {
+            sinkRef.current?.abort();
+            sinkRef.current = null;
+            fileInfoRef.current = null;
+            updateDownload(fileInfo.fileId, { status: 'failed' });
+          }
+          setDownloads((prev) => {
+            const next = new Map(prev);
+            next.forEach((download, fileId) => {
+              if (download.status === 'requested') {
+                next.set(fileId, { ...download, status: 'failed' });
+              }
+            });
+            return next;
+          });
+          // Files already received stay available after the sender leaves
+          if (!hasManifestRef.current && !rejectedRef.current) {
             setError('Connection closed by peer.');
-            setStatus('Connection closed.');
           }
         };
 
@@ -171,14 +460,117 @@ export default function Receiver({ remotePeerId }: ReceiverProps) {
 
     initPeer();
 
+    const finishedSinks = finishedSinksRef.current;
     return () => {
       connRef.current?.close();
       peerRef.current?.destroy();
+      sinkRef.current?.abort();
+      // The links die with the page, so their scratch files can go too
+      finishedSinks.forEach((sink) => sink.abort());
     };
-    // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [remotePeerId]);
 
+  const chooseDownloadFolder = async () => {
+    const directory = await pickDownloadDirectory();
+    if (directory) {
+      downloadDirRef.current = directory;
+      setDownloadDirName(directory.name);
+    }
+  };
+
+  // Files that can still be asked for: never requested, or failed last time
+  const isRequestable = (fileId: string) => {
+    const download = downloads.get(fileId);
+    return !download || download.status === 'failed';
+  };
+
+  const toggleSelected = (fileId: string) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (!next.delete(fileId)) next.add(fileId);
+      return next;
+    });
+  };
+
+  const requestSelected = () => {
+    const fileIds = Array.from(selected).filter(isRequestable);
+    const conn = connRef.current;
+    if (fileIds.length === 0 || !conn?.open) return;
+
+    conn.send({ type: 'request', payload: { fileIds } });
+    fileIds.forEach((fileId) =>
+      updateDownload(fileId, {
+        status: 'requested',
+        progress: 0,
+        downloadUrl: null,
+        integrity: 'pending',
+        compressionRatio: null,
+      }),
+    );
+    setSelected(new Set());
+  };
+
+  const renderDownload = (entry: ManifestEntry) => {
+    const download = downloads.get(entry.fileId);
+    if (!download || download.status === 'failed') {
+      return download ? (
+        <Chip size="sm" color="danger" variant="flat">
+          Failed
+        </Chip>
+      ) : null;
+    }
+    if (download.status === 'requested') {
+      return (
+        <Chip size="sm" variant="flat">
+          Queued
+        </Chip>
+      );
+    }
+    if (download.status === 'receiving' || !download.downloadUrl) {
+      return (
+        <Progress
+          size="sm"
+          value={download.progress}
+          aria-label={`Receiving ${entry.name}`}
+          className="w-24"
+        />
+      );
+    }
+    return (
+      <div className="flex items-center gap-2">
+        {download.integrity === 'verified' ? (
+          <CheckCircle2 className="h-5 w-5 shrink-0 text-green-500" />
+        ) : (
+          <ShieldAlert className="text-danger h-5 w-5 shrink-0" />
+        )}
+        <Button
+          as="a"
+          href={download.downloadUrl}
+          download={entry.name}
+          isIconOnly
+          size="sm"
+          color="success"
+          variant="flat"
+          aria-label={`Download ${entry.name}`}
+        >
+          <Download className="h-4 w-4" />
+        </Button>
+      </div>
+    );
+  };
+
   const renderContent = () => {
+    if (rejection && (!manifest || manifest.length === 0)) {
+      const { title, description, icon: Icon } = REJECTIONS[rejection];
+      return (
+        <div className="text-default-500 flex flex-col items-center gap-4 text-center">
+          <Icon className="h-12 w-12" />
+          <p className="font-semibold">{title}</p>
+          <p className="text-sm">{description}</p>
+        </div>
+      );
+    }
+
     if (error) {
       return (
         <div className="text-destructive flex flex-col items-center gap-4 text-center">
@@ -189,40 +581,97 @@ export default function Receiver({ remotePeerId }: ReceiverProps) {
       );
     }
 
-    if (!fileInfo) {
+    const folderButton = canPickFolder && (
+      <Button
+        size="sm"
+        variant="flat"
+        onPress={chooseDownloadFolder}
+        startContent={<FolderDown className="h-4 w-4 shrink-0" />}
+      >
+        {downloadDirName
+          ? `Saving to "${downloadDirName}"`
+          : 'Choose download folder'}
+      </Button>
+    );
+
+    if (!manifest || manifest.length === 0) {
       return (
         <div className="text-muted-foreground flex flex-col items-center gap-4 text-center">
           <Loader2 className="h-12 w-12 animate-spin" />
           <p className="font-semibold">{status}</p>
+          {folderButton}
         </div>
       );
     }
 
-    if (downloadUrl) {
-      return (
-        <div className="flex flex-col items-center gap-4 text-center">
-          <CheckCircle2 className="h-12 w-12 text-green-500" />
-          <p className="font-semibold">Download Ready!</p>
-          <a className="w-full" href={downloadUrl} download={fileInfo.name}>
-            <Button className="w-full justify-start">
-              <Download className="h-5 w-5 shrink-0" />
-              <p className="truncate">Download {fileInfo.name}</p>
-            </Button>
-          </a>
-        </div>
-      );
-    }
+    const requestable = manifest.filter((entry) => isRequestable(entry.fileId));
+    const selectedCount = requestable.filter((entry) =>
+      selected.has(entry.fileId),
+    ).length;
 
     return (
       <div className="space-y-4">
-        <div className="bg-muted/50 flex items-center gap-4 rounded-lg border p-4">
-          <FileIcon className="text-primary h-8 w-8" />
-          <div className="flex flex-col">
-            <p className="truncate font-semibold">{fileInfo.name}</p>
-            <p className="text-muted-foreground text-sm">
-              {formatBytes(fileInfo.size)}
-            </p>
+        {rejection && (
+          <div className="text-default-500 space-y-1 text-center text-sm">
+            <p className="font-semibold">{REJECTIONS[rejection].title}</p>
+            <p>{REJECTIONS[rejection].description}</p>
           </div>
+        )}
+        <div className="space-y-2">
+          {manifest.map((entry) => {
+            const ratio = downloads.get(entry.fileId)?.compressionRatio;
+            return (
+              <div
+                key={entry.fileId}
+                className="bg-muted/50 flex items-center gap-3 rounded-lg border p-3"
+              >
+                <Checkbox
+                  aria-label={`Select ${entry.name}`}
+                  isSelected={selected.has(entry.fileId)}
+                  isDisabled={!isRequestable(entry.fileId)}
+                  onValueChange={() => toggleSelected(entry.fileId)}
+                />
+                <FileIcon className="text-primary h-6 w-6 shrink-0" />
+                <div className="min-w-0 flex-1">
+                  <p className="truncate text-sm font-semibold">{entry.name}</p>
+                  <p className="text-muted-foreground text-xs">
+                    {formatBytes(entry.size)}
+                    {ratio && ` · ${ratio} compressed`}
+                  </p>
+                </div>
+                {renderDownload(entry)}
+              </div>
+            );
+          })}
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <Button
+            size="sm"
+            variant="light"
+            isDisabled={requestable.length === 0}
+            onPress={() =>
+              setSelected(
+                selectedCount === requestable.length
+                  ? new Set()
+                  : new Set(requestable.map((entry) => entry.fileId)),
+              )
+            }
+          >
+            {selectedCount === requestable.length && selectedCount > 0
+              ? 'Select none'
+              : 'Select all'}
+          </Button>
+          {folderButton}
+          <Button
+            className="ml-auto"
+            color="primary"
+            size="sm"
+            isDisabled={selectedCount === 0}
+            onPress={requestSelected}
+            startContent={<Download className="h-4 w-4 shrink-0" />}
+          >
+            Download {selectedCount > 0 ? `(${selectedCount})` : 'selected'}
+          </Button>
         </div>
       </div>
     );
@@ -240,12 +689,32 @@ export default function Receiver({ remotePeerId }: ReceiverProps) {
       <CardBody className="flex flex-col justify-center">
         {renderContent()}
       </CardBody>
-      {(isReceiving || (progress > 0 && !downloadUrl)) && (
+      {isReceiving && (
         <CardFooter className="flex flex-col gap-2">
           <div className="w-full text-center">
             <p className="animate-pulse text-sm">{status}</p>
+            {linkInfo && <p className="text-default-500 text-xs">{linkInfo}</p>}
           </div>
-          <Progress value={progress} className="w-full" />
+        </CardFooter>
+      )}
+      {!error && !rejection && (
+        <CardFooter className="flex flex-col gap-2 pt-0">
+          <Button
+            size="sm"
+            variant="light"
+            onPress={() => setShowDiagnostics((shown) => !shown)}
+            startContent={<Activity className="h-4 w-4 shrink-0" />}
+          >
+            {showDiagnostics ? 'Hide connection details' : 'Connection details'}
+          </Button>
+          {showDiagnostics && (
+            <div className="w-full overflow-x-auto">
+              <ConnectionDiagnostics
+                peers={[{ peerId: remotePeerId, name: 'Sender' }]}
+                getConnection={() => connRef.current ?? undefined}
+              />
+            </div>
+          )}
         </CardFooter>
       )}
     </Card>
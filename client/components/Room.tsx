@@ -1,7 +1,14 @@
 'use client';
 
 import Image from 'next/image';
-import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import {
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+  useSyncExternalStore,
+} from 'react';
 
 import {
   Avatar,
@@ -18,6 +25,7 @@ import {
   ModalContent,
   ModalHeader,
   Progress,
+  Switch,
   Table,
   TableBody,
   TableCell,
@@ -28,64 +36,207 @@ import {
   addToast,
 } from '@heroui/react';
 import {
+  Activity,
   Check,
+  ChevronDown,
+  ChevronRight,
   Copy,
   Download,
   Eye,
+  FileArchive,
   File as FileIcon,
+  Folder,
+  FolderDown,
+  FolderUp,
+  Hash,
   Link2 as LinkIcon,
   LogOut,
+  Pause,
+  Play,
   Send,
   Share2,
   UploadCloud,
   Users,
+  X,
 } from 'lucide-react';
 import type { DataConnection, Peer } from 'peerjs';
 import QRCode from 'qrcode';
 
-import { formatBytes } from '@/lib/utils';
-
-const CHUNK_SIZE = 65536; // 64KB
+import ConnectionDiagnostics from '@/components/ConnectionDiagnostics';
+import IncomingOffers from '@/components/IncomingOffers';
+import NearbyRequests from '@/components/NearbyRequests';
+import OutgoingQueue from '@/components/OutgoingQueue';
+import RoomFiles from '@/components/RoomFiles';
+import {
+  type BundleEntry,
+  createZip,
+  entriesFromDataTransfer,
+  entriesFromFileList,
+  groupByFolder,
+} from '@/lib/bundle';
+import {
+  type CompressionFormat,
+  DecompressionLimitError,
+  chooseCompression,
+  compressChunk,
+  formatRatio,
+  supportedCompression,
+} from '@/lib/compression';
+import {
+  ENCRYPTION_OVERHEAD,
+  deriveChunkKey,
+  encryptChunk,
+  generateSecret,
+  readSecretFromLocation,
+  withSecret,
+} from '@/lib/encryption';
+import {
+  ChunkVerifier,
+  type IntegrityStatus,
+  hashFile,
+  sha256,
+} from '@/lib/hash';
+import {
+  answerAccessRequest,
+  isAccessRequest,
+  keepAnnounced,
+} from '@/lib/nearby';
+import { type OfferAnswer, OfferWaiters } from '@/lib/offers';
+import { MissedHeartbeats } from '@/lib/presence';
+import {
+  RELAY_MIN_RECIPIENTS,
+  RelayForwarder,
+  gatherAccepted,
+} from '@/lib/relay';
+import {
+  type BundleRef,
+  type ChunkMessage,
+  type FileMetadata,
+  type HeartbeatResponse,
+  type JoinPayload,
+  type JoinResponse,
+  PIECE_SIZE,
+  type PeerData,
+  type ResumeOffset,
+  type RoomEvent,
+  type RoomUser,
+  type TransferAction,
+  chunkCount,
+  openChunk,
+} from '@/lib/room-protocol';
+import { type QueuedSend, SendQueue } from '@/lib/send-queue';
+import { createShortCode } from '@/lib/short-code';
+import {
+  type FileSink,
+  type SinkKind,
+  createFileSink,
+  pickDownloadDirectory,
+  saveToDirectory,
+  supportsDirectoryPicker,
+} from '@/lib/storage';
+import {
+  Availability,
+  Bitfield,
+  MAX_REQUESTS_PER_SOURCE,
+  SwarmDownload,
+} from '@/lib/swarm';
+import { TransferMeter, type TransferRate } from '@/lib/telemetry';
+import {
+  ChunkSizer,
+  type LinkStats,
+  MAX_CHUNK_SIZE,
+  type RelayNode,
+  SendScheduler,
+  StreamControls,
+  buildRelayTree,
+  flattenRelayTree,
+} from '@/lib/transfer';
+import { formatBytes, formatDuration } from '@/lib/utils';
+
+const RESUME_RETRY_DELAY = 2000;
+
+// Folder transfers are written under their relative path
+const sinkMetadata = (metadata: FileMetadata) => ({
+  ...metadata,
+  path: metadata.bundle?.path,
+});
+// "2.1 MB/s · 0:42 left" once a transfer has a measurable speed
+const rateLabel = (rate?: TransferRate) => {
+  if (!rate?.current) return undefined;
+  const speed = `${formatBytes(rate.current)}/s`;
+  return rate.eta !== null
+    ? `${speed} · ${formatDuration(rate.eta)} left`
+    : speed;
+};
+const MAX_UNVERIFIED_MESSAGES = 32;
+// Wait before reopening a room event stream the server turned away
+const EVENTS_RETRY_DELAY = 5000;
+
+const jsonHeaders = (memberToken?: string | null): HeadersInit => ({
+  'Content-Type': 'application/json',
+  ...(memberToken ? { Authorization: `Bearer ${memberToken}` } : {}),
+});
+
+// Browser capabilities never change, so there is nothing to subscribe to
+const subscribeToNothing = () => () => {};
+
+// File bytes against what actually crossed the wire
+type CompressionStats = {
+  format: CompressionFormat;
+  raw: number;
+  wire: number;
+};
 
-type FileMetadata = {
-  name: string;
-  size: number;
-  type: string;
-  senderId: string;
-  senderName: string;
-  fileId: string;
+type AvailableFile = {
+  metadata: FileMetadata;
+  holders: number;
 };
 
-type RoomUser = {
+type PendingOffer = {
+  metadata: FileMetadata;
   peerId: string;
-  name: string;
 };
 
-type PeerData =
-  | { type: 'join'; payload: { name: string; peerId: string } }
-  | { type: 'user-list'; payload: RoomUser[] }
-  | { type: 'user-joined'; payload: RoomUser }
-  | { type: 'user-left'; payload: { peerId: string } }
-  | { type: 'metadata'; payload: FileMetadata }
-  | {
-      type: 'chunk';
-      payload: ArrayBuffer;
-      index: number;
-      totalChunks: number;
-      fileId: string;
-    }
-  | { type: 'end'; payload: { fileId: string } };
-
 type ReceivedFile = {
   metadata: FileMetadata;
   progress: number;
-  chunks: ArrayBuffer[];
   receivedSize: number;
+  receivedChunks: number;
+  storage?: SinkKind;
+  compression?: CompressionStats;
   downloadUrl: string | null;
   completed: boolean;
+  integrity: IntegrityStatus;
   toastShown?: boolean;
   timestamp: number;
   completedAt?: number;
+  // Fetched from several holders instead of streamed by the sender
+  swarm?: boolean;
+  rate?: TransferRate;
+  paused?: boolean;
+  cancelled?: boolean;
+};
+
+type RecipientStatus =
+  | 'offered'
+  | 'sending'
+  | 'paused'
+  | 'relayed'
+  | 'completed'
+  | 'declined'
+  | 'cancelled'
+  | 'failed';
+
+type SentRecipient = {
+  peerId: string;
+  name: string;
+  progress: number;
+  status: RecipientStatus;
+  // Set once they accept the offer; only then may they resume the file
+  accepted?: boolean;
+  compression?: CompressionStats;
+  link?: LinkStats;
+  rate?: TransferRate;
 };
 
 type SentFile = {
@@ -93,39 +244,136 @@ type SentFile = {
   downloadUrl: string;
   timestamp: number;
   blob?: Blob;
-  progress?: number;
   completed?: boolean;
+  recipients: SentRecipient[];
+};
+
+type SendOptions = {
+  isResend?: boolean;
+  existingFileId?: string;
+  // Peer IDs to send to; everyone in the room when omitted
+  recipientIds?: string[];
+  resumeOffset?: number;
+  resumeIndex?: number;
+  bundle?: BundleRef;
 };
 
 type RoomProps = {
   roomId: string;
+  inviteToken?: string;
 };
 
-export default function Room({ roomId }: RoomProps) {
+export default function Room({ roomId, inviteToken }: RoomProps) {
   const [myPeerId, setMyPeerId] = useState<string | null>(null);
   const [myName, setMyName] = useState('');
+  const [password, setPassword] = useState('');
+  const [shareToken, setShareToken] = useState<string | null>(null);
+  const [roomSecret, setRoomSecret] = useState<string | null>(null);
+  const [peerTtl, setPeerTtl] = useState<number | null>(null);
+  const [roomFiles, setRoomFiles] = useState<AvailableFile[]>([]);
   const [isJoined, setIsJoined] = useState(false);
   const [users, setUsers] = useState<RoomUser[]>([]);
   const [status, setStatus] = useState('Initializing...');
-  const [isSending, setIsSending] = useState(false);
   const [receivedFiles, setReceivedFiles] = useState<Map<string, ReceivedFile>>(
     new Map(),
   );
   const [sentFiles, setSentFiles] = useState<SentFile[]>([]);
   const [isCopied, setIsCopied] = useState(false);
-  const [selectedFiles, setSelectedFiles] = useState<File[]>([]);
+  const [selectedFiles, setSelectedFiles] = useState<BundleEntry[]>([]);
+  const [isDragging, setIsDragging] = useState(false);
+  const [expandedBundles, setExpandedBundles] = useState<Set<string>>(
+    new Set(),
+  );
+  const [selectedRecipients, setSelectedRecipients] = useState<string[]>([]);
+  const [pendingOffers, setPendingOffers] = useState<PendingOffer[]>([]);
+  const [autoAcceptMb, setAutoAcceptMb] = useState('');
+  const [compressFiles, setCompressFiles] = useState(true);
+  const [isVisibleNearby, setIsVisibleNearby] = useState(false);
+  // Nearby devices waiting for us to let them have the room link
+  const [accessRequests, setAccessRequests] = useState<DataConnection[]>([]);
+  const [sendQueue, setSendQueue] = useState<QueuedSend<SendOptions>[]>([]);
   const [isShareOpen, setIsShareOpen] = useState(false);
+  const [isDiagnosticsOpen, setIsDiagnosticsOpen] = useState(false);
   const [qrDataUrl, setQrDataUrl] = useState('');
+  const [shortCode, setShortCode] = useState<string | null>(null);
+  const [isCreatingCode, setIsCreatingCode] = useState(false);
   const [qrError, setQrError] = useState('');
   const [isQrLoading, setIsQrLoading] = useState(false);
+  const [downloadDirName, setDownloadDirName] = useState<string | null>(null);
+  const canPickFolder = useSyncExternalStore(
+    subscribeToNothing,
+    supportsDirectoryPicker,
+    () => false,
+  );
 
   const peerRef = useRef<Peer | null>(null);
   const connectionsRef = useRef<Map<string, DataConnection>>(new Map());
+  const schedulerRef = useRef(new SendScheduler());
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const folderInputRef = useRef<HTMLInputElement | null>(null);
   const usersRef = useRef<RoomUser[]>([]);
   const myNameRef = useRef('');
   const myPeerIdRef = useRef<string | null>(null);
   const connectToPeerRef = useRef<(peerId: string) => void>(() => {});
+  const isJoinedRef = useRef(false);
+  const isVisibleNearbyRef = useRef(false);
+  const receivedFilesRef = useRef<Map<string, ReceivedFile>>(new Map());
+  const sentFilesRef = useRef<SentFile[]>([]);
+  const verifiersRef = useRef<Map<string, ChunkVerifier>>(new Map());
+  const sinksRef = useRef<Map<string, FileSink>>(new Map());
+  const downloadDirRef = useRef<FileSystemDirectoryHandle | null>(null);
+  const acceptedOffersRef = useRef<Set<string>>(new Set());
+  // Answering for one file of a folder answers for the rest as they arrive
+  const bundleAnswersRef = useRef<Map<string, OfferAnswer>>(new Map());
+  const offerWaitersRef = useRef(new OfferWaiters());
+  const autoAcceptLimitRef = useRef(0);
+  const compressFilesRef = useRef(true);
+  // Compression formats each peer said it can decode when accepting
+  const peerCompressionRef = useRef<Map<string, CompressionFormat[]>>(
+    new Map(),
+  );
+  const memberTokenRef = useRef<string | null>(null);
+  const chunkKeyRef = useRef<CryptoKey | null>(null);
+  // Chunks are decrypted asynchronously, so each file keeps its own ordered queue
+  const inboxRef = useRef<Map<string, Promise<void>>>(new Map());
+  // Connections we dialed, or whose join proof the server confirmed
+  const trustedConnsRef = useRef<WeakSet<DataConnection>>(new WeakSet());
+  const outgoingFilesRef = useRef<Map<string, File>>(new Map());
+  const sendSingleFileRef = useRef<typeof sendSingleFile>(async () => false);
+  const sendQueueRef = useRef(
+    new SendQueue<SendOptions>(
+      (file, options, waitForSlot) =>
+        sendSingleFileRef.current(file, options, waitForSlot),
+      setSendQueue,
+    ),
+  );
+  const reconnectToRoomRef = useRef<() => void>(() => {});
+  const missedHeartbeatsRef = useRef(new MissedHeartbeats());
+  // fileId -> the relay we receive it through
+  const relayParentsRef = useRef<Map<string, string>>(new Map());
+  const throttleRelaySourceRef = useRef<
+    (fileId: string, throttled: boolean) => void
+  >(() => {});
+  // The subtrees we forward files to
+  const relaysRef = useRef(
+    new RelayForwarder(
+      schedulerRef.current,
+      (peerId) => connectionsRef.current.get(peerId),
+      (fileId, throttled) => throttleRelaySourceRef.current(fileId, throttled),
+    ),
+  );
+  // Complete copies we can serve, and who else in the room holds which file
+  const heldFilesRef = useRef<
+    Map<string, { metadata: FileMetadata; blob: Blob }>
+  >(new Map());
+  const availabilityRef = useRef(new Availability<FileMetadata>());
+  const swarmsRef = useRef<Map<string, SwarmDownload<FileMetadata>>>(new Map());
+  // Chunk sizing for each stream we send, keyed by `${fileId}:${peerId}`
+  const sizersRef = useRef<Map<string, ChunkSizer>>(new Map());
+  // Speed and ETA of each file we are receiving
+  const metersRef = useRef<Map<string, TransferMeter>>(new Map());
+  // Pause and cancel state of each stream we send, keyed like sizersRef
+  const streamControlsRef = useRef(new StreamControls());
 
   const broadcastToOthers = useCallback(
     (data: PeerData, excludePeerId?: string) => {
@@ -142,161 +390,1112 @@ export default function Room({ roomId }: RoomProps) {
     [],
   );
 
-  const handleData = useCallback((data: PeerData) => {
-    if (data.type === 'join') {
-      const newUser = data.payload;
-      setUsers((prev) => {
-        if (!prev.find((u) => u.peerId === newUser.peerId)) {
-          const updated = [...prev, newUser];
-          usersRef.current = updated;
-          return updated;
-        }
-        return prev;
-      });
-    } else if (data.type === 'user-list') {
-      const userList = data.payload.filter(
-        (u) => u.peerId !== myPeerIdRef.current,
+  const dropPeer = useCallback((peerId: string) => {
+    setUsers((prev) => {
+      const updated = prev.filter((u) => u.peerId !== peerId);
+      usersRef.current = updated;
+      return updated;
+    });
+
+    // Close connection to the peer that left to ensure cleanup
+    const conn = connectionsRef.current.get(peerId);
+    if (conn) {
+      conn.close();
+      connectionsRef.current.delete(peerId);
+    }
+  }, []);
+
+  const acceptOffer = useCallback((offer: PendingOffer) => {
+    const { fileId } = offer.metadata;
+
+    // A fresh offer restarts the file from the beginning, so drop any partial copy
+    sinksRef.current.get(fileId)?.abort();
+    sinksRef.current.delete(fileId);
+    verifiersRef.current.delete(fileId);
+    setReceivedFiles((prev) => {
+      if (!prev.has(fileId)) return prev;
+      const newMap = new Map(prev);
+      newMap.delete(fileId);
+      return newMap;
+    });
+
+    acceptedOffersRef.current.add(fileId);
+    connectionsRef.current.get(offer.peerId)?.send({
+      type: 'accept',
+      payload: { fileId, compression: supportedCompression() },
+    });
+    setPendingOffers((prev) =>
+      prev.filter((o) => o.metadata.fileId !== fileId),
+    );
+  }, []);
+
+  const declineOffer = (offer: PendingOffer) => {
+    const { fileId } = offer.metadata;
+    connectionsRef.current
+      .get(offer.peerId)
+      ?.send({ type: 'decline', payload: { fileId } });
+    setPendingOffers((prev) =>
+      prev.filter((o) => o.metadata.fileId !== fileId),
+    );
+  };
+
+  const answerOffers = (offers: PendingOffer[], answer: OfferAnswer) => {
+    const bundleId = offers[0]?.metadata.bundle?.id;
+    if (bundleId) bundleAnswersRef.current.set(bundleId, answer);
+    offers.forEach((offer) =>
+      answer === 'accepted' ? acceptOffer(offer) : declineOffer(offer),
+    );
+  };
+
+  const updateRecipient = useCallback(
+    (fileId: string, peerId: string, patch: Partial<SentRecipient>) => {
+      setSentFiles((prev) =>
+        prev.map((f) =>
+          f.metadata.fileId === fileId
+            ? {
+                ...f,
+                recipients: f.recipients.map((r) =>
+                  r.peerId === peerId ? { ...r, ...patch } : r,
+                ),
+              }
+            : f,
+        ),
       );
-      // Merge with existing users to avoid losing peers
-      setUsers((prev) => {
-        const merged = new Map<string, RoomUser>();
-        // Keep existing users
-        prev.forEach((u) => merged.set(u.peerId, u));
-        // Add/update new users from list
-        userList.forEach((u) => merged.set(u.peerId, u));
-        const updated = Array.from(merged.values());
-        usersRef.current = updated;
-        return updated;
-      });
-    } else if (data.type === 'user-joined') {
-      const newUser = data.payload;
-      setUsers((prev) => {
-        if (!prev.find((u) => u.peerId === newUser.peerId)) {
-          const updated = [...prev, newUser];
-          usersRef.current = updated;
-          return updated;
-        }
-        return prev;
+    },
+    [],
+  );
+
+  const sendControl = useCallback(
+    (peerId: string, fileId: string, action: TransferAction) => {
+      const conn = connectionsRef.current.get(peerId);
+      if (conn?.open)
+        conn.send({ type: 'control', payload: { fileId, action } });
+    },
+    [],
+  );
+
+  const setStreamPaused = useCallback(
+    (fileId: string, peerId: string, paused: boolean, notifyPeer = true) => {
+      if (!streamControlsRef.current.setPaused(fileId, peerId, paused)) return;
+      if (notifyPeer) sendControl(peerId, fileId, paused ? 'pause' : 'resume');
+      updateRecipient(fileId, peerId, {
+        status: paused ? 'paused' : 'sending',
       });
+      if (!paused) schedulerRef.current.notify();
+    },
+    [sendControl, updateRecipient],
+  );
+
+  const cancelStream = useCallback(
+    (fileId: string, peerId: string, notifyPeer = true) => {
+      if (!streamControlsRef.current.cancel(fileId, peerId)) return;
+      if (notifyPeer) sendControl(peerId, fileId, 'cancel');
+      // A paused stream is idle; wake it so it stops
+      schedulerRef.current.notify();
+    },
+    [sendControl],
+  );
+
+  /**
+   * Pauses the source of a file we relay while our children catch up, and
+   * resumes it once they have. A pause the user asked for is left alone in
+   * both directions.
+   */
+  const throttleRelaySource = useCallback(
+    (fileId: string, throttled: boolean) => {
+      const file = receivedFilesRef.current.get(fileId);
+      if (!file || file.paused || file.completed || file.cancelled) return;
+      const source =
+        relayParentsRef.current.get(fileId) ?? file.metadata.senderId;
+      sendControl(source, fileId, throttled ? 'pause' : 'resume');
+    },
+    [sendControl],
+  );
+
+  useEffect(() => {
+    throttleRelaySourceRef.current = throttleRelaySource;
+  }, [throttleRelaySource]);
+
+  // Starts forwarding a file we receive to our part of its relay tree
+  const startRelay = useCallback(
+    (
+      metadata: FileMetadata,
+      relayTo: RelayNode[],
+      compression?: CompressionFormat,
+    ) => {
+      const unreachable = relaysRef.current.start(
+        metadata,
+        relayTo,
+        compression,
+      );
+      if (unreachable.length > 0) {
+        connectionsRef.current.get(metadata.senderId)?.send({
+          type: 'relay-miss',
+          payload: { fileId: metadata.fileId, peerIds: unreachable },
+        });
+      }
+    },
+    [],
+  );
 
-      // Connect to the new user if not already connected
-      if (
-        !connectionsRef.current.has(newUser.peerId) &&
-        newUser.peerId !== myPeerIdRef.current
+  const haveMessage = (metadata: FileMetadata): PeerData => ({
+    type: 'have',
+    payload: {
+      metadata,
+      bitfield: Bitfield.full(chunkCount(metadata.size)).bytes,
+    },
+  });
+
+  // Remembers a complete copy and lets the room fetch pieces of it from us
+  const holdFile = useCallback(
+    (metadata: FileMetadata, blob: Blob) => {
+      heldFilesRef.current.set(metadata.fileId, { metadata, blob });
+      if (metadata.audience === 'room') {
+        broadcastToOthers(haveMessage(metadata));
+      }
+    },
+    [broadcastToOthers],
+  );
+
+  const refreshRoomFiles = useCallback(() => {
+    setRoomFiles(availabilityRef.current.list());
+  }, []);
+
+  const registerHolder = useCallback(
+    (metadata: FileMetadata, peerId: string, bitfield: Bitfield) => {
+      availabilityRef.current.register(
+        metadata.fileId,
+        metadata,
+        peerId,
+        bitfield,
+      );
+      refreshRoomFiles();
+      swarmsRef.current.get(metadata.fileId)?.pump();
+    },
+    [refreshRoomFiles],
+  );
+
+  const forgetHolder = useCallback(
+    (peerId: string) => {
+      availabilityRef.current.forget(peerId);
+      swarmsRef.current.forEach((swarm) => swarm.removeSource(peerId));
+      refreshRoomFiles();
+    },
+    [refreshRoomFiles],
+  );
+
+  /**
+   * Pauses or resumes a file we receive. Streams are paused at their source,
+   * which holds back our relay subtree too; swarm downloads just stop asking.
+   */
+  const setReceivePaused = useCallback(
+    (fileId: string, paused: boolean, notifySource = true) => {
+      const file = receivedFilesRef.current.get(fileId);
+      if (!file || file.completed || file.cancelled) return;
+
+      // Streams come from our relay parent, or else the sender
+      const source =
+        relayParentsRef.current.get(fileId) ?? file.metadata.senderId;
+      const swarm = swarmsRef.current.get(fileId);
+      if (swarm) {
+        swarm.paused = paused;
+        if (!paused) swarm.pump();
+      } else if (
+        notifySource &&
+        // Our relay children still need to catch up before the source goes on
+        (paused || !relaysRef.current.isThrottled(fileId))
       ) {
-        connectToPeerRef.current(newUser.peerId);
+        sendControl(source, fileId, paused ? 'pause' : 'resume');
       }
-    } else if (data.type === 'user-left') {
-      const peerId = data.payload.peerId;
-      setUsers((prev) => {
-        const updated = prev.filter((u) => u.peerId !== peerId);
-        usersRef.current = updated;
-        return updated;
+      setReceivedFiles((prev) => {
+        const current = prev.get(fileId);
+        if (!current) return prev;
+        return new Map(prev).set(fileId, { ...current, paused });
       });
+    },
+    [sendControl],
+  );
 
-      // Close connection to the peer that left to ensure cleanup
-      const conn = connectionsRef.current.get(peerId);
-      if (conn) {
-        conn.close();
-        connectionsRef.current.delete(peerId);
+  /**
+   * Drops a partial download along with what was stored of it. When we relay
+   * the file, the stream keeps coming for our subtree and we just stop saving.
+   */
+  const cancelReceive = useCallback(
+    (fileId: string, notifySource = true) => {
+      const file = receivedFilesRef.current.get(fileId);
+      if (!file || file.completed || file.cancelled) return;
+
+      const source =
+        relayParentsRef.current.get(fileId) ?? file.metadata.senderId;
+      const swarm = swarmsRef.current.get(fileId);
+      if (swarm) {
+        swarm.stop();
+        swarmsRef.current.delete(fileId);
+      } else if (notifySource && !relaysRef.current.has(fileId)) {
+        sendControl(source, fileId, 'cancel');
       }
-    } else if (data.type === 'metadata') {
-      const metadata = data.payload;
+      sinksRef.current.get(fileId)?.abort();
+      sinksRef.current.delete(fileId);
+      verifiersRef.current.delete(fileId);
+      metersRef.current.delete(fileId);
+      acceptedOffersRef.current.delete(fileId);
+      if (file.downloadUrl) URL.revokeObjectURL(file.downloadUrl);
+
       setReceivedFiles((prev) => {
-        const newMap = new Map(prev);
-        const existing = newMap.get(metadata.fileId);
-        // Ignore duplicate sends if already completed
-        if (existing?.completed) return prev;
-        if (!existing) {
-          newMap.set(metadata.fileId, {
-            metadata,
-            progress: 0,
-            chunks: [],
-            receivedSize: 0,
-            downloadUrl: null,
-            completed: false,
-            timestamp: Date.now(),
+        const current = prev.get(fileId);
+        if (!current || current.completed) return prev;
+        return new Map(prev).set(fileId, {
+          ...current,
+          downloadUrl: null,
+          paused: false,
+          cancelled: true,
+          rate: undefined,
+        });
+      });
+    },
+    [sendControl],
+  );
+
+  /** Gives up on a download whose sender sent a decompression bomb. */
+  const abortOversizedReceive = useCallback(
+    (fileId: string) => {
+      const file = receivedFilesRef.current.get(fileId);
+      if (!file || file.cancelled) return;
+      cancelReceive(fileId);
+      addToast({
+        title: 'Transfer Aborted',
+        description: `${file.metadata.name} held more data than it declared`,
+        color: 'danger',
+      });
+    },
+    [cancelReceive],
+  );
+
+  // Pieces arrive out of order, so the whole-file hash is checked at the end
+  const finishSwarm = useCallback(
+    (fileId: string) => {
+      const swarm = swarmsRef.current.get(fileId);
+      const sink = sinksRef.current.get(fileId);
+      if (!swarm || !sink) return;
+      swarm.stop();
+      swarmsRef.current.delete(fileId);
+      metersRef.current.delete(fileId);
+
+      sink
+        .close()
+        .then(async (fileBlob) => {
+          const integrity: IntegrityStatus =
+            (await hashFile(fileBlob)) === swarm.metadata.sha256
+              ? 'verified'
+              : 'corrupted';
+          const url = URL.createObjectURL(fileBlob);
+          setReceivedFiles((prev) => {
+            const file = prev.get(fileId);
+            if (!file || file.completed) return prev;
+            return new Map(prev).set(fileId, {
+              ...file,
+              downloadUrl: url,
+              completed: true,
+              integrity,
+              storage: sink.kind,
+              progress: 100,
+              completedAt: Date.now(),
+            });
+          });
+          if (integrity === 'verified') holdFile(swarm.metadata, fileBlob);
+        })
+        .catch((error) => {
+          console.error('Failed to save received file:', error);
+          addToast({
+            title: 'Save Failed',
+            description: 'Could not write the received file to storage',
+            color: 'danger',
           });
+        });
+    },
+    [holdFile],
+  );
+
+  const receiveSwarmChunk = useCallback(
+    async (
+      swarm: SwarmDownload<FileMetadata>,
+      data: ChunkMessage,
+      sealed: ArrayBuffer,
+    ) => {
+      const { fileId, index } = data;
+      let chunk: ArrayBuffer | null = null;
+      try {
+        const key = chunkKeyRef.current;
+        if (!key) throw new Error('Missing room encryption key');
+        // Every piece but the last is exactly PIECE_SIZE
+        const limit = Math.min(
+          PIECE_SIZE,
+          swarm.metadata.size - index * PIECE_SIZE,
+        );
+        chunk = await openChunk(key, data, sealed, limit);
+      } catch (error) {
+        if (error instanceof DecompressionLimitError) {
+          abortOversizedReceive(fileId);
+          return;
         }
-        return newMap;
-      });
-    } else if (data.type === 'chunk') {
-      const payload = data.payload as ArrayBuffer | Uint8Array;
-      let chunk: ArrayBuffer;
-      if (payload instanceof ArrayBuffer) {
-        chunk = payload;
-      } else {
-        chunk = payload.slice(0).buffer as ArrayBuffer;
+        console.error('Failed to decrypt chunk:', error);
+      }
+
+      if (!chunk || sha256(chunk) !== data.hash) {
+        swarm.retry(index);
+        return;
       }
-      const fileId = data.fileId;
+      if (!swarm.received(index)) return;
+
+      sinksRef.current.get(fileId)?.write(chunk, index * PIECE_SIZE);
+      const size = chunk.byteLength;
+      const meter = metersRef.current.get(fileId);
+      meter?.record(size);
       setReceivedFiles((prev) => {
-        const newMap = new Map(prev);
         const file = prev.get(fileId);
+        if (!file || file.completed) return prev;
+        return new Map(prev).set(fileId, {
+          ...file,
+          receivedSize: file.receivedSize + size,
+          progress: ((file.receivedSize + size) / file.metadata.size) * 100,
+          rate: meter?.rate,
+        });
+      });
 
-        if (file && !file.completed) {
-          const updatedFile = {
-            ...file,
-            chunks: [...file.chunks, chunk],
-            receivedSize: file.receivedSize + chunk.byteLength,
-            progress:
-              ((file.receivedSize + chunk.byteLength) / file.metadata.size) *
-              100,
+      if (swarm.isComplete()) {
+        finishSwarm(fileId);
+      } else {
+        swarm.pump();
+      }
+    },
+    [abortOversizedReceive, finishSwarm],
+  );
+
+  const serveRequest = useCallback(
+    (conn: DataConnection, fileId: string, indices: number[]) => {
+      const held = heldFilesRef.current.get(fileId);
+      // Files sent to selected people stay with them
+      if (!held || held.metadata.audience !== 'room') return;
+
+      const { blob, metadata } = held;
+      const totalChunks = chunkCount(metadata.size);
+      const queue = indices
+        .filter((i) => Number.isInteger(i) && i >= 0 && i < totalChunks)
+        .slice(0, MAX_REQUESTS_PER_SOURCE);
+
+      schedulerRef.current
+        .enqueue(conn, async () => {
+          const index = queue.shift();
+          if (index === undefined) return null;
+          const key = chunkKeyRef.current;
+          if (!key) throw new Error('Missing room encryption key');
+          const chunk = await blob
+            .slice(index * PIECE_SIZE, (index + 1) * PIECE_SIZE)
+            .arrayBuffer();
+          const message: PeerData = {
+            type: 'chunk',
+            payload: await encryptChunk(key, chunk),
+            index,
+            totalChunks,
+            hash: sha256(chunk),
+            fileId,
           };
-          newMap.set(fileId, updatedFile);
-        } else {
+          return message;
+        })
+        .catch(() => {
+          // The requester re-asks elsewhere once its request times out
+        });
+    },
+    [],
+  );
+
+  /**
+   * Fetches a file from every member holding it. A partial copy streamed from
+   * a sender who has since left is continued rather than restarted.
+   */
+  const startSwarmDownload = useCallback(
+    (fileId: string) => {
+      const entry = availabilityRef.current.get(fileId);
+      const existing = receivedFilesRef.current.get(fileId);
+      if (!entry || swarmsRef.current.has(fileId) || existing?.completed) {
+        return;
+      }
+
+      const { metadata } = entry;
+      const have = new Bitfield(chunkCount(metadata.size));
+      // Cancelled copies have no sink left and start over
+      const partial =
+        existing && sinksRef.current.has(fileId) ? existing : undefined;
+      // Streamed chunks vary in size, so only whole pieces are kept; bytes
+      // past the last of them are fetched again with their piece
+      const whole = partial
+        ? Math.min(Math.floor(partial.receivedSize / PIECE_SIZE), have.size)
+        : 0;
+      const kept = Math.min(whole * PIECE_SIZE, metadata.size);
+      if (partial) {
+        for (let i = 0; i < whole; i++) have.set(i);
+      } else {
+        sinksRef.current.get(fileId)?.abort();
+        sinksRef.current.set(
+          fileId,
+          createFileSink(sinkMetadata(metadata), downloadDirRef.current),
+        );
+      }
+      verifiersRef.current.delete(fileId);
+      acceptedOffersRef.current.add(fileId);
+      metersRef.current.set(fileId, new TransferMeter(metadata.size, kept));
+
+      setReceivedFiles((prev) =>
+        new Map(prev).set(fileId, {
+          metadata,
+          progress: metadata.size ? (kept / metadata.size) * 100 : 0,
+          receivedSize: kept,
+          receivedChunks: whole,
+          downloadUrl: null,
+          completed: false,
+          integrity: 'pending',
+          timestamp: partial?.timestamp ?? Date.now(),
+          swarm: true,
+        }),
+      );
+
+      const swarm = new SwarmDownload(
+        metadata,
+        have,
+        () => availabilityRef.current.get(fileId)?.holders,
+        (peerId) => connectionsRef.current.get(peerId),
+      );
+      swarmsRef.current.set(fileId, swarm);
+
+      if (swarm.isComplete()) {
+        finishSwarm(fileId);
+      } else {
+        swarm.pump();
+      }
+    },
+    [finishSwarm],
+  );
+
+  const handleData = useCallback(
+    (data: PeerData, conn: DataConnection) => {
+      if (data.type === 'join') {
+        const newUser = data.payload;
+        setUsers((prev) => {
+          if (!prev.find((u) => u.peerId === newUser.peerId)) {
+            const updated = [...prev, newUser];
+            usersRef.current = updated;
+            return updated;
+          }
+          return prev;
+        });
+      } else if (data.type === 'user-list') {
+        const userList = data.payload.filter(
+          (u) => u.peerId !== myPeerIdRef.current,
+        );
+        // Merge with existing users to avoid losing peers
+        setUsers((prev) => {
+          const merged = new Map<string, RoomUser>();
+          // Keep existing users
+          prev.forEach((u) => merged.set(u.peerId, u));
+          // Add/update new users from list
+          userList.forEach((u) => merged.set(u.peerId, u));
+          const updated = Array.from(merged.values());
+          usersRef.current = updated;
+          return updated;
+        });
+      } else if (data.type === 'user-joined') {
+        const newUser = data.payload;
+        setUsers((prev) => {
+          if (!prev.find((u) => u.peerId === newUser.peerId)) {
+            const updated = [...prev, newUser];
+            usersRef.current = updated;
+            return updated;
+          }
           return prev;
+        });
+
+        // Connect to the new user if not already connected
+        if (
+          !connectionsRef.current.has(newUser.peerId) &&
+          newUser.peerId !== myPeerIdRef.current
+        ) {
+          connectToPeerRef.current(newUser.peerId);
+        }
+      } else if (data.type === 'user-left') {
+        dropPeer(data.payload.peerId);
+      } else if (data.type === 'metadata') {
+        const metadata = data.payload;
+        // Only files we agreed to receive may stream in
+        if (!acceptedOffersRef.current.has(metadata.fileId)) return;
+
+        if (conn.peer !== metadata.senderId) {
+          relayParentsRef.current.set(metadata.fileId, conn.peer);
+        }
+        // A resumed stream keeps the subtree we already forward to
+        if (data.relayTo?.length && !relaysRef.current.has(metadata.fileId)) {
+          startRelay(metadata, data.relayTo, data.compression);
         }
-        return newMap;
-      });
-    } else if (data.type === 'end') {
-      const fileId = data.payload.fileId;
-      setReceivedFiles((prev) => {
-        const newMap = new Map(prev);
-        const file = prev.get(fileId);
 
-        if (file && !file.completed) {
-          const fileBlob = new Blob(file.chunks, {
-            type: file.metadata.type,
-          });
-          const url = URL.createObjectURL(fileBlob);
-          newMap.set(fileId, {
-            ...file,
-            downloadUrl: url,
-            completed: true,
-            progress: 100,
-            completedAt: Date.now(),
+        // A stream restarted by the resume handshake stays paused
+        if (receivedFilesRef.current.get(metadata.fileId)?.paused) {
+          conn.send({
+            type: 'control',
+            payload: { fileId: metadata.fileId, action: 'pause' },
           });
+        }
+
+        // A resumed stream measures from what already arrived
+        metersRef.current.set(
+          metadata.fileId,
+          new TransferMeter(
+            metadata.size,
+            receivedFilesRef.current.get(metadata.fileId)?.receivedSize ?? 0,
+          ),
+        );
+
+        // Sinks stay registered after completion, so this skips duplicate sends
+        if (!sinksRef.current.has(metadata.fileId)) {
+          verifiersRef.current.set(
+            metadata.fileId,
+            new ChunkVerifier(metadata.sha256),
+          );
+          sinksRef.current.set(
+            metadata.fileId,
+            createFileSink(sinkMetadata(metadata), downloadDirRef.current),
+          );
+        }
+        setReceivedFiles((prev) => {
+          const newMap = new Map(prev);
+          const existing = newMap.get(metadata.fileId);
+          // Ignore duplicate sends if already completed
+          if (existing?.completed) return prev;
+          const compression = data.compression && {
+            format: data.compression,
+            raw: 0,
+            wire: 0,
+          };
+          if (!existing) {
+            newMap.set(metadata.fileId, {
+              metadata,
+              progress: 0,
+              receivedSize: 0,
+              receivedChunks: 0,
+              compression,
+              downloadUrl: null,
+              completed: false,
+              integrity: 'pending',
+              timestamp: Date.now(),
+            });
+          } else if (compression && !existing.compression) {
+            newMap.set(metadata.fileId, { ...existing, compression });
+          }
+          return newMap;
+        });
+      } else if (data.type === 'chunk') {
+        const payload = data.payload as ArrayBuffer | Uint8Array;
+        let sealed: ArrayBuffer;
+        if (payload instanceof ArrayBuffer) {
+          sealed = payload;
         } else {
-          return prev;
+          sealed = payload.slice(0).buffer as ArrayBuffer;
         }
-        return newMap;
-      });
-    }
-  }, []);
+        const fileId = data.fileId;
+        const swarm = swarmsRef.current.get(fileId);
+        if (swarm) {
+          void receiveSwarmChunk(swarm, data, sealed);
+          return;
+        }
+        // Relays pass the sealed chunk on untouched
+        relaysRef.current.forward(fileId, data);
+
+        const receiveChunk = async () => {
+          const key = chunkKeyRef.current;
+          const fileSize = receivedFilesRef.current.get(fileId)?.metadata.size;
+          let chunk: ArrayBuffer | null = null;
+          try {
+            if (!key) throw new Error('Missing room encryption key');
+            chunk = await openChunk(
+              key,
+              data,
+              sealed,
+              Math.min(MAX_CHUNK_SIZE, fileSize ?? MAX_CHUNK_SIZE),
+            );
+          } catch (error) {
+            if (error instanceof DecompressionLimitError) {
+              abortOversizedReceive(fileId);
+              return;
+            }
+            console.error('Failed to decrypt chunk:', error);
+          }
+
+          const chunkOk =
+            !!chunk &&
+            (verifiersRef.current
+              .get(fileId)
+              ?.verifyChunk(chunk, data.index, data.totalChunks, data.hash) ??
+              true);
+          if (chunk) {
+            sinksRef.current.get(fileId)?.write(chunk);
+          }
+          if (conn.open) {
+            conn.send({ type: 'ack', payload: { fileId, index: data.index } });
+          }
+          const wireSize = sealed.byteLength - ENCRYPTION_OVERHEAD;
+          const size = chunk?.byteLength ?? wireSize;
+          const meter = metersRef.current.get(fileId);
+          meter?.record(size);
+
+          setReceivedFiles((prev) => {
+            const newMap = new Map(prev);
+            const file = prev.get(fileId);
+
+            if (file && !file.completed && !file.cancelled) {
+              const updatedFile: ReceivedFile = {
+                ...file,
+                integrity: chunkOk ? file.integrity : 'corrupted',
+                compression: file.compression && {
+                  ...file.compression,
+                  raw: file.compression.raw + size,
+                  wire: file.compression.wire + wireSize,
+                },
+                receivedSize: file.receivedSize + size,
+                receivedChunks: file.receivedChunks + 1,
+                progress:
+                  ((file.receivedSize + size) / file.metadata.size) * 100,
+                rate: meter?.rate,
+              };
+              newMap.set(fileId, updatedFile);
+            } else {
+              return prev;
+            }
+            return newMap;
+          });
+        };
+
+        const inbox = inboxRef.current.get(fileId) ?? Promise.resolve();
+        inboxRef.current.set(fileId, inbox.then(receiveChunk));
+      } else if (data.type === 'end') {
+        const fileId = data.payload.fileId;
+        relaysRef.current.forward(fileId, data);
+        const inbox = inboxRef.current.get(fileId) ?? Promise.resolve();
+        inboxRef.current.delete(fileId);
+
+        // Finish once every chunk queued before this message is written
+        inbox.then(() => {
+          const sink = sinksRef.current.get(fileId);
+          const verifier = verifiersRef.current.get(fileId);
+          if (!sink || !verifier) return;
+
+          const integrity = verifier.finish();
+          verifiersRef.current.delete(fileId);
+          relayParentsRef.current.delete(fileId);
+          metersRef.current.delete(fileId);
+
+          sink
+            .close()
+            .then((fileBlob) => {
+              const url = URL.createObjectURL(fileBlob);
+              // Senders only see direct progress, so confirm relayed copies
+              const metadata = receivedFilesRef.current.get(fileId)?.metadata;
+              if (metadata) {
+                connectionsRef.current
+                  .get(metadata.senderId)
+                  ?.send({ type: 'received', payload: { fileId } });
+                if (integrity === 'verified') holdFile(metadata, fileBlob);
+              }
+              setReceivedFiles((prev) => {
+                const newMap = new Map(prev);
+                const file = prev.get(fileId);
+
+                if (file && !file.completed) {
+                  newMap.set(fileId, {
+                    ...file,
+                    downloadUrl: url,
+                    completed: true,
+                    integrity,
+                    storage: sink.kind,
+                    progress: 100,
+                    completedAt: Date.now(),
+                  });
+                } else {
+                  return prev;
+                }
+                return newMap;
+              });
+            })
+            .catch((error) => {
+              console.error('Failed to save received file:', error);
+              addToast({
+                title: 'Save Failed',
+                description: 'Could not write the received file to storage',
+                color: 'danger',
+              });
+            });
+        });
+      } else if (data.type === 'offer') {
+        const offer: PendingOffer = {
+          metadata: data.payload,
+          peerId: conn.peer,
+        };
+
+        // Already have it, so there is no point streaming it again
+        if (receivedFilesRef.current.get(offer.metadata.fileId)?.completed) {
+          conn.send({
+            type: 'decline',
+            payload: { fileId: offer.metadata.fileId },
+          });
+          return;
+        }
+
+        const bundleId = offer.metadata.bundle?.id;
+        const bundleAnswer = bundleId && bundleAnswersRef.current.get(bundleId);
+        if (bundleAnswer === 'declined') {
+          conn.send({
+            type: 'decline',
+            payload: { fileId: offer.metadata.fileId },
+          });
+          return;
+        }
+
+        const limit = autoAcceptLimitRef.current;
+        if (
+          bundleAnswer === 'accepted' ||
+          (limit > 0 && offer.metadata.size <= limit)
+        ) {
+          acceptOffer(offer);
+          return;
+        }
+
+        setPendingOffers((prev) =>
+          prev.some((o) => o.metadata.fileId === offer.metadata.fileId)
+            ? prev
+            : [...prev, offer],
+        );
+      } else if (data.type === 'accept' || data.type === 'decline') {
+        if (data.type === 'accept') {
+          peerCompressionRef.current.set(
+            conn.peer,
+            data.payload.compression ?? [],
+          );
+        }
+        offerWaitersRef.current.answer(
+          data.payload.fileId,
+          conn.peer,
+          data.type === 'accept' ? 'accepted' : 'declined',
+        );
+      } else if (data.type === 'ack') {
+        const { fileId, index } = data.payload;
+        sizersRef.current.get(`${fileId}:${conn.peer}`)?.acked(index);
+      } else if (data.type === 'received') {
+        updateRecipient(data.payload.fileId, conn.peer, {
+          progress: 100,
+          status: 'completed',
+        });
+      } else if (data.type === 'relay-miss') {
+        // Offer the file again to the peers the relay could not reach, as
+        // long as both the relay and they were meant to get it from us
+        const { fileId, peerIds } = data.payload;
+        const file = outgoingFilesRef.current.get(fileId);
+        const sent = sentFilesRef.current.find(
+          (f) => f.metadata.fileId === fileId,
+        );
+        const relayed = new Set(
+          sent?.recipients
+            .filter((r) => r.status === 'relayed')
+            .map((r) => r.peerId),
+        );
+        const missed = peerIds.filter((peerId) => relayed.has(peerId));
+        if (
+          file &&
+          sent?.recipients.some((r) => r.peerId === conn.peer) &&
+          missed.length > 0
+        ) {
+          sendSingleFileRef.current(file, {
+            isResend: true,
+            existingFileId: fileId,
+            recipientIds: missed,
+            bundle: sent.metadata.bundle,
+          });
+        }
+      } else if (data.type === 'have') {
+        const { metadata } = data.payload;
+        registerHolder(
+          metadata,
+          conn.peer,
+          new Bitfield(chunkCount(metadata.size), data.payload.bitfield),
+        );
+      } else if (data.type === 'catalog') {
+        data.payload.files.forEach((metadata) =>
+          registerHolder(
+            metadata,
+            conn.peer,
+            Bitfield.full(chunkCount(metadata.size)),
+          ),
+        );
+      } else if (data.type === 'request') {
+        serveRequest(conn, data.payload.fileId, data.payload.indices);
+      } else if (data.type === 'control') {
+        const { fileId, action } = data.payload;
+        const paused = action === 'pause';
+
+        if (streamControlsRef.current.has(fileId, conn.peer)) {
+          // The receiver of a stream we send
+          if (action === 'cancel') cancelStream(fileId, conn.peer, false);
+          else setStreamPaused(fileId, conn.peer, paused, false);
+        } else if (!relaysRef.current.control(fileId, conn.peer, action)) {
+          // Not a peer we relay this file to, so whoever streams it to us;
+          // only they may steer it
+          const file = receivedFilesRef.current.get(fileId);
+          if (
+            !file ||
+            (relayParentsRef.current.get(fileId) ?? file.metadata.senderId) !==
+              conn.peer
+          ) {
+            return;
+          }
+
+          relaysRef.current.forward(fileId, data);
+          if (action === 'cancel') {
+            cancelReceive(fileId, false);
+            addToast({
+              title: 'Transfer Cancelled',
+              description: `${file.metadata.senderName} cancelled ${file.metadata.name}`,
+              color: 'warning',
+            });
+          } else {
+            setReceivePaused(fileId, paused, false);
+          }
+        }
+      } else if (data.type === 'resume') {
+        // Continue interrupted transfers from the offset the receiver already
+        // has. Only files we sent them count, and only an accepted offer
+        // picks up where it stopped; anything else is offered again.
+        data.payload.files.forEach(({ fileId, offset, index }) => {
+          const file = outgoingFilesRef.current.get(fileId);
+          const sent = sentFilesRef.current.find(
+            (f) => f.metadata.fileId === fileId,
+          );
+          const recipient = sent?.recipients.find(
+            (r) => r.peerId === conn.peer,
+          );
+          if (
+            !file ||
+            !recipient ||
+            offset >= file.size ||
+            recipient.status === 'declined' ||
+            recipient.status === 'cancelled'
+          ) {
+            return;
+          }
+          sendSingleFileRef.current(file, {
+            isResend: true,
+            existingFileId: fileId,
+            recipientIds: [conn.peer],
+            bundle: sent?.metadata.bundle,
+            ...(recipient.accepted && {
+              resumeOffset: offset,
+              resumeIndex: index,
+            }),
+          });
+        });
+      }
+    },
+    [
+      abortOversizedReceive,
+      acceptOffer,
+      cancelReceive,
+      cancelStream,
+      dropPeer,
+      holdFile,
+      receiveSwarmChunk,
+      registerHolder,
+      serveRequest,
+      setReceivePaused,
+      setStreamPaused,
+      startRelay,
+      updateRecipient,
+    ],
+  );
+
+  // Offsets of incomplete files received from a peer, used for the resume handshake
+  const getPendingResumes = useCallback(
+    (senderId: string): ResumeOffset[] =>
+      Array.from(receivedFilesRef.current.values())
+        .filter(
+          (f) =>
+            !f.completed && !f.cancelled && f.metadata.senderId === senderId,
+        )
+        .map((f) => ({
+          fileId: f.metadata.fileId,
+          offset: f.receivedSize,
+          index: f.receivedChunks,
+        })),
+    [],
+  );
+
+  const admitConnection = useCallback(
+    (conn: DataConnection) => {
+      const remotePeerId = conn.peer;
+      connectionsRef.current.set(remotePeerId, conn);
+
+      // When connection opens, send current user list to ensure sync
+      if (myPeerIdRef.current && myNameRef.current) {
+        const currentUsers = [
+          { peerId: myPeerIdRef.current, name: myNameRef.current },
+          ...usersRef.current.filter((u) => u.peerId !== remotePeerId),
+        ];
+        conn.send({ type: 'user-list', payload: currentUsers });
+      }
+
+      // Ask the sender to continue any file we only partially received
+      const pending = getPendingResumes(remotePeerId);
+      if (pending.length > 0) {
+        conn.send({ type: 'resume', payload: { files: pending } });
+      }
+
+      // Let the newcomer browse and fetch what was shared before it joined
+      const files = Array.from(heldFilesRef.current.values())
+        .map(({ metadata }) => metadata)
+        .filter((metadata) => metadata.audience === 'room');
+      if (files.length > 0) {
+        conn.send({ type: 'catalog', payload: { files } });
+      }
+    },
+    [getPendingResumes],
+  );
+
+  // Incoming connections must carry a member token the server confirms
+  const verifyJoin = useCallback(
+    async (payload: JoinPayload, conn: DataConnection) => {
+      try {
+        if (payload.peerId !== conn.peer) {
+          throw new Error('Peer ID does not match connection');
+        }
+
+        const response = await fetch(`/api/rooms/${roomId}/verify`, {
+          method: 'POST',
+          headers: jsonHeaders(),
+          body: JSON.stringify({ peerId: conn.peer, proof: payload.proof }),
+        });
+        const { valid } = (await response.json()) as { valid?: boolean };
+        if (!valid) {
+          throw new Error('Invalid membership proof');
+        }
+
+        trustedConnsRef.current.add(conn);
+        admitConnection(conn);
+        return true;
+      } catch (error) {
+        console.warn('Rejected join from', conn.peer, error);
+        conn.close();
+        return false;
+      }
+    },
+    [admitConnection, roomId],
+  );
 
   const setupConnectionHandlers = useCallback(
     (conn: DataConnection) => {
       const remotePeerId = conn.peer;
+      // Messages that arrive before the join proof is verified
+      const unverified: PeerData[] = [];
 
       conn.on('open', () => {
-        connectionsRef.current.set(remotePeerId, conn);
-
-        // When connection opens, send current user list to ensure sync
-        if (myPeerIdRef.current && myNameRef.current) {
-          const currentUsers = [
-            { peerId: myPeerIdRef.current, name: myNameRef.current },
-            ...usersRef.current.filter((u) => u.peerId !== remotePeerId),
-          ];
-          conn.send({ type: 'user-list', payload: currentUsers });
+        if (trustedConnsRef.current.has(conn)) {
+          admitConnection(conn);
         }
       });
 
       conn.on('data', (data: unknown) => {
-        handleData(data as PeerData);
+        const peerData = data as PeerData;
+        if (trustedConnsRef.current.has(conn)) {
+          handleData(peerData, conn);
+          return;
+        }
+
+        if (peerData.type === 'join') {
+          verifyJoin(peerData.payload, conn).then((ok) => {
+            if (!ok) return;
+            handleData(peerData, conn);
+            unverified.splice(0).forEach((m) => handleData(m, conn));
+          });
+        } else if (unverified.length < MAX_UNVERIFIED_MESSAGES) {
+          unverified.push(peerData);
+        }
       });
 
       conn.on('close', () => {
+        // Rejected connections were never part of the room
+        if (!trustedConnsRef.current.has(conn)) return;
+
         connectionsRef.current.delete(remotePeerId);
+
+        // Offers to or from this peer can no longer be answered
+        offerWaitersRef.current.abandon(remotePeerId);
+        setPendingOffers((prev) =>
+          prev.filter((o) => o.peerId !== remotePeerId),
+        );
+
+        // A peer that is still listed dropped unexpectedly (not via user-left),
+        // so dial it again if we were in the middle of receiving from it
+        const stillListed = usersRef.current.some(
+          (u) => u.peerId === remotePeerId,
+        );
+        if (stillListed && getPendingResumes(remotePeerId).length > 0) {
+          setTimeout(() => {
+            if (!connectionsRef.current.has(remotePeerId)) {
+              connectToPeerRef.current(remotePeerId);
+            }
+          }, RESUME_RETRY_DELAY);
+        }
+
+        // Files we got through this peer as a relay continue straight from
+        // their sender, once the chunks already in flight are written
+        const orphaned = Array.from(relayParentsRef.current)
+          .filter(([, parentId]) => parentId === remotePeerId)
+          .map(([fileId]) => fileId);
+        if (orphaned.length > 0) {
+          orphaned.forEach((fileId) => relayParentsRef.current.delete(fileId));
+          setTimeout(() => {
+            orphaned.forEach((fileId) => {
+              const file = receivedFilesRef.current.get(fileId);
+              if (!file || file.completed || file.cancelled) return;
+              connectionsRef.current.get(file.metadata.senderId)?.send({
+                type: 'resume',
+                payload: {
+                  files: [
+                    {
+                      fileId,
+                      offset: file.receivedSize,
+                      index: file.receivedChunks,
+                    },
+                  ],
+                },
+              });
+            });
+          }, RESUME_RETRY_DELAY);
+        }
+
+        // Files this peer sent us but never finished come from whoever
+        // else in the room already holds them
+        forgetHolder(remotePeerId);
+        if (!stillListed) {
+          setTimeout(() => {
+            receivedFilesRef.current.forEach((file, fileId) => {
+              if (
+                file.completed ||
+                file.cancelled ||
+                file.metadata.senderId !== remotePeerId
+              ) {
+                return;
+              }
+              if (availabilityRef.current.get(fileId)?.holders.size) {
+                startSwarmDownload(fileId);
+              }
+            });
+          }, RESUME_RETRY_DELAY);
+        }
+
         setUsers((prev) => {
           const updated = prev.filter((u) => u.peerId !== remotePeerId);
           usersRef.current = updated;
@@ -326,7 +1525,15 @@ export default function Room({ roomId }: RoomProps) {
         });
       });
     },
-    [broadcastToOthers, handleData],
+    [
+      admitConnection,
+      broadcastToOthers,
+      forgetHolder,
+      getPendingResumes,
+      handleData,
+      startSwarmDownload,
+      verifyJoin,
+    ],
   );
 
   useEffect(() => {
@@ -360,10 +1567,30 @@ export default function Room({ roomId }: RoomProps) {
         peer.on('open', (id) => {
           setMyPeerId(id);
           myPeerIdRef.current = id;
-          setStatus('Ready to join room');
+
+          // Reopened after peer.reconnect(): dial the room again so
+          // interrupted transfers can resume
+          if (isJoinedRef.current) {
+            setStatus('Reconnected');
+            reconnectToRoomRef.current();
+          } else {
+            setStatus('Ready to join room');
+          }
         });
 
         peer.on('connection', (conn) => {
+          if (isAccessRequest(conn)) {
+            // Only asked while we are listed; we decide who gets the link
+            if (!isVisibleNearbyRef.current) {
+              answerAccessRequest(conn, null);
+              return;
+            }
+            setAccessRequests((prev) => [...prev, conn]);
+            conn.on('close', () =>
+              setAccessRequests((prev) => prev.filter((c) => c !== conn)),
+            );
+            return;
+          }
           setupConnectionHandlers(conn);
         });
 
@@ -414,7 +1641,7 @@ export default function Room({ roomId }: RoomProps) {
         // Remove from server registry
         fetch(`/api/rooms/${roomId}/peers`, {
           method: 'DELETE',
-          headers: { 'Content-Type': 'application/json' },
+          headers: jsonHeaders(memberTokenRef.current),
           body: JSON.stringify({ peerId: myPeerIdRef.current }),
           keepalive: true,
         }).catch(() => {});
@@ -474,13 +1701,81 @@ export default function Room({ roomId }: RoomProps) {
     setStatus('Joining room...');
 
     try {
-      await fetch(`/api/rooms/${roomId}/peers`, {
+      const joinResponse = await fetch(`/api/rooms/${roomId}/peers`, {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ peerId: myPeerId, name: myName }),
+        headers: jsonHeaders(),
+        body: JSON.stringify({
+          peerId: myPeerId,
+          name: myName,
+          password: password || undefined,
+          inviteToken,
+        }),
       });
+      const joined = (await joinResponse.json()) as JoinResponse;
 
-      const response = await fetch(`/api/rooms/${roomId}/peers`);
+      if (joinResponse.status === 410) {
+        setStatus('Room expired');
+        addToast({
+          title: 'Room Expired',
+          description: joined.error,
+          color: 'danger',
+        });
+        return;
+      }
+      if (joinResponse.status === 401 || joinResponse.status === 403) {
+        setStatus(
+          joinResponse.status === 401
+            ? 'Password required'
+            : 'Incorrect password',
+        );
+        addToast({
+          title: 'Access Denied',
+          description: joined.error,
+          color: 'danger',
+        });
+        return;
+      }
+      if (!joinResponse.ok) {
+        throw new Error(joined.error || 'Failed to join room');
+      }
+
+      memberTokenRef.current = joined.memberToken;
+      setShareToken(joined.isProtected ? joined.inviteToken : null);
+      setPeerTtl(joined.ttl);
+
+      // Everyone in the room shares the key from the link's #fragment; the
+      // first member of a new room mints one
+      let secret = readSecretFromLocation();
+      if (!secret) {
+        if (joined.peers.some((peer) => peer.peerId !== myPeerId)) {
+          await fetch(`/api/rooms/${roomId}/peers`, {
+            method: 'DELETE',
+            headers: jsonHeaders(joined.memberToken),
+            body: JSON.stringify({ peerId: myPeerId }),
+          });
+          memberTokenRef.current = null;
+          setStatus('Missing encryption key');
+          addToast({
+            title: 'Missing Encryption Key',
+            description:
+              'Ask a member for the full room link, including the part after #',
+            color: 'danger',
+          });
+          return;
+        }
+        secret = generateSecret();
+        window.history.replaceState(
+          null,
+          '',
+          withSecret(window.location.pathname + window.location.search, secret),
+        );
+      }
+      chunkKeyRef.current = await deriveChunkKey(secret, roomId);
+      setRoomSecret(secret);
+
+      const response = await fetch(`/api/rooms/${roomId}/peers`, {
+        headers: jsonHeaders(joined.memberToken),
+      });
       if (!response.ok) {
         throw new Error('Failed to fetch peers');
       }
@@ -498,10 +1793,12 @@ export default function Room({ roomId }: RoomProps) {
       });
 
       setIsJoined(true);
+      isJoinedRef.current = true;
       setStatus('Joined room');
     } catch (error) {
       console.error('Failed to join room:', error);
       setIsJoined(false);
+      isJoinedRef.current = false;
       setStatus('Failed to join room');
       addToast({
         title: 'Join Failed',
@@ -523,6 +1820,8 @@ export default function Room({ roomId }: RoomProps) {
           serialization: 'binary',
         });
 
+        // We picked this peer from the room registry, so trust it up front
+        trustedConnsRef.current.add(conn);
         setupConnectionHandlers(conn);
 
         // Set a timeout for connection attempts
@@ -538,7 +1837,11 @@ export default function Room({ roomId }: RoomProps) {
           clearTimeout(connectionTimeout);
           conn.send({
             type: 'join',
-            payload: { name: myName, peerId: myPeerId },
+            payload: {
+              name: myName,
+              peerId: myPeerId,
+              proof: memberTokenRef.current ?? '',
+            },
           });
         });
 
@@ -554,24 +1857,280 @@ export default function Room({ roomId }: RoomProps) {
     [myName, myPeerId, setupConnectionHandlers],
   );
 
+  // Release partial downloads and OPFS scratch files when the room unmounts
+  useEffect(() => {
+    const sinks = sinksRef.current;
+    const swarms = swarmsRef.current;
+    return () => {
+      swarms.forEach((swarm) => swarm.stop());
+      sinks.forEach((sink) => sink.abort());
+      sinks.clear();
+    };
+  }, []);
+
+  const chooseDownloadFolder = async () => {
+    const directory = await pickDownloadDirectory();
+    if (directory) {
+      downloadDirRef.current = directory;
+      setDownloadDirName(directory.name);
+    }
+  };
+
   // Update the ref so handleData can use it without circular dependency
   useEffect(() => {
     connectToPeerRef.current = connectToPeer;
   }, [connectToPeer]);
 
+  useEffect(() => {
+    receivedFilesRef.current = receivedFiles;
+  }, [receivedFiles]);
+
+  useEffect(() => {
+    sentFilesRef.current = sentFiles;
+  }, [sentFiles]);
+
+  // Re-register and dial every peer in the registry after a signaling reconnect
+  const reconnectToRoom = useCallback(async () => {
+    const peerId = myPeerIdRef.current;
+    if (!peerId) return;
+
+    try {
+      const joinResponse = await fetch(`/api/rooms/${roomId}/peers`, {
+        method: 'POST',
+        headers: jsonHeaders(memberTokenRef.current),
+        body: JSON.stringify({ peerId, name: myNameRef.current }),
+      });
+      if (joinResponse.status === 410) {
+        // The room and its password lapsed; it cannot come back open
+        setStatus('Room expired');
+        addToast({
+          title: 'Room Expired',
+          description: 'Start a new room to keep sharing',
+          color: 'danger',
+        });
+        return;
+      }
+      if (joinResponse.ok) {
+        const joined = (await joinResponse.json()) as JoinResponse;
+        memberTokenRef.current = joined.memberToken;
+        setPeerTtl(joined.ttl);
+      }
+
+      const response = await fetch(`/api/rooms/${roomId}/peers`, {
+        headers: jsonHeaders(memberTokenRef.current),
+      });
+      if (!response.ok) {
+        throw new Error('Failed to fetch peers');
+      }
+
+      const data = (await response.json()) as { peers: RoomUser[] };
+      data.peers.forEach((p) => {
+        if (p.peerId !== peerId && !connectionsRef.current.has(p.peerId)) {
+          connectToPeerRef.current(p.peerId);
+        }
+      });
+    } catch (error) {
+      console.error('Failed to reconnect to room:', error);
+    }
+  }, [roomId]);
+
+  useEffect(() => {
+    reconnectToRoomRef.current = reconnectToRoom;
+  }, [reconnectToRoom]);
+
+  // Keep our registry entry fresh and forget members whose heartbeats stopped
+  const sendHeartbeat = useCallback(async () => {
+    const peerId = myPeerIdRef.current;
+    if (!peerId || !isJoinedRef.current) return;
+
+    try {
+      const response = await fetch(`/api/rooms/${roomId}/peers`, {
+        method: 'PUT',
+        headers: jsonHeaders(memberTokenRef.current),
+        body: JSON.stringify({ peerId }),
+      });
+      if (response.status === 404) {
+        // We were evicted, e.g. while the tab was suspended
+        reconnectToRoomRef.current();
+        return;
+      }
+      if (!response.ok) {
+        throw new Error('Heartbeat rejected');
+      }
+
+      const data = (await response.json()) as HeartbeatResponse;
+      setPeerTtl(data.ttl);
+      memberTokenRef.current = data.memberToken;
+      missedHeartbeatsRef.current
+        .record(
+          usersRef.current.map((u) => u.peerId),
+          new Set(data.peers.map((p) => p.peerId)),
+          (peerId) => !!connectionsRef.current.get(peerId)?.open,
+        )
+        .forEach(dropPeer);
+    } catch (error) {
+      console.error('Heartbeat failed:', error);
+    }
+  }, [dropPeer, roomId]);
+
+  useEffect(() => {
+    if (!isJoined || !peerTtl) return;
+
+    // Three beats per TTL, so one slow request never gets us evicted
+    const timer = setInterval(sendHeartbeat, (peerTtl * 1000) / 3);
+
+    // Background tabs get their timers throttled, so beat again on return
+    const handleVisibilityChange = () => {
+      if (!document.hidden) sendHeartbeat();
+    };
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+
+    return () => {
+      clearInterval(timer);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+    };
+  }, [isJoined, peerTtl, sendHeartbeat]);
+
+  // Opted in: devices on our network see the room on their home page
+  useEffect(() => {
+    if (!isJoined || !isVisibleNearby || !roomSecret || !myPeerId) return;
+    return keepAnnounced({
+      peerId: myPeerId,
+      name: `Room ${roomId}`,
+      kind: 'room',
+    });
+  }, [isJoined, isVisibleNearby, myPeerId, roomId, roomSecret]);
+
+  const answerNearby = (conn: DataConnection, allow: boolean) => {
+    answerAccessRequest(
+      conn,
+      allow && roomSecret
+        ? withSecret(
+            `/room/${roomId}${shareToken ? `?invite=${shareToken}` : ''}`,
+            roomSecret,
+          )
+        : null,
+    );
+    setAccessRequests((prev) => prev.filter((c) => c !== conn));
+  };
+
+  // The registry is the source of truth for who is in the room; peer-to-peer
+  // user-* messages only fill the gap until its events arrive
+  const applyRoomEvent = useCallback((event: RoomEvent) => {
+    const myId = myPeerIdRef.current;
+    const isConnected = (peerId: string) =>
+      !!connectionsRef.current.get(peerId)?.open;
+    const setRoomUsers = (update: (prev: RoomUser[]) => RoomUser[]) =>
+      setUsers((prev) => {
+        const updated = update(prev);
+        usersRef.current = updated;
+        return updated;
+      });
+
+    if (event.type === 'snapshot') {
+      if (!event.peers.some((p) => p.peerId === myId)) {
+        // Evicted while the stream was down; join again
+        reconnectToRoomRef.current();
+      }
+      const others = event.peers
+        .filter((p) => p.peerId !== myId)
+        .map(({ peerId, name }) => ({ peerId, name }));
+      const listed = new Set(others.map((p) => p.peerId));
+      // The registry only trims the list; open connections are left to
+      // their own close handler
+      setRoomUsers((prev) => [
+        ...others,
+        ...prev.filter((u) => !listed.has(u.peerId) && isConnected(u.peerId)),
+      ]);
+    } else if (event.type === 'leave') {
+      if (event.peerId === myId) {
+        reconnectToRoomRef.current();
+      } else if (!isConnected(event.peerId)) {
+        setRoomUsers((prev) => prev.filter((u) => u.peerId !== event.peerId));
+      }
+    } else if (event.peer.peerId !== myId) {
+      const { peerId, name } = event.peer;
+      setRoomUsers((prev) =>
+        prev.some((u) => u.peerId === peerId)
+          ? prev.map((u) => (u.peerId === peerId ? { ...u, name } : u))
+          : [...prev, { peerId, name }],
+      );
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!isJoined) return;
+
+    const listener = (e: Event) =>
+      applyRoomEvent(JSON.parse((e as MessageEvent<string>).data) as RoomEvent);
+    const types = ['snapshot', 'join', 'leave', 'rename'];
+    let source: EventSource;
+    let retry: ReturnType<typeof setTimeout> | undefined;
+
+    const open = () => {
+      // EventSource cannot send headers, so the member token rides in the query
+      const token = memberTokenRef.current;
+      source = new EventSource(
+        `/api/rooms/${roomId}/events${
+          token ? `?token=${encodeURIComponent(token)}` : ''
+        }`,
+      );
+      types.forEach((type) => source.addEventListener(type, listener));
+      // The browser gives up on a rejected stream, e.g. once the token in its
+      // URL expired, so reopen it with the token the heartbeat refreshed
+      source.onerror = () => {
+        if (source.readyState !== EventSource.CLOSED) return;
+        types.forEach((type) => source.removeEventListener(type, listener));
+        retry = setTimeout(open, EVENTS_RETRY_DELAY);
+      };
+    };
+    open();
+
+    return () => {
+      clearTimeout(retry);
+      types.forEach((type) => source.removeEventListener(type, listener));
+      source.close();
+    };
+  }, [applyRoomEvent, isJoined, roomId]);
+
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const files = e.target.files ? Array.from(e.target.files) : [];
-    if (files.length > 0) {
-      setSelectedFiles(files);
+    const entries = e.target.files ? entriesFromFileList(e.target.files) : [];
+    if (entries.length > 0) {
+      setSelectedFiles(entries);
     }
   };
 
-  const sendSingleFile = (
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    setIsDragging(false);
+    entriesFromDataTransfer(e.dataTransfer)
+      .then((entries) => {
+        if (entries.length > 0) setSelectedFiles(entries);
+      })
+      .catch((error) => {
+        console.error('Failed to read dropped files:', error);
+        addToast({
+          title: 'Error',
+          description: 'Could not read the dropped files',
+          color: 'danger',
+        });
+      });
+  };
+
+  const sendSingleFile = async (
     file: File,
-    isResend = false,
-    existingFileId?: string,
-  ) => {
-    if (!myPeerId || !myName) return;
+    {
+      isResend = false,
+      existingFileId,
+      recipientIds,
+      resumeOffset,
+      resumeIndex,
+      bundle,
+    }: SendOptions = {},
+    // Resolves once the file may start streaming; queued sends wait for a slot
+    waitForSlot?: () => Promise<void>,
+  ): Promise<boolean> => {
+    if (!myPeerId || !myName) return false;
 
     if (connectionsRef.current.size === 0) {
       addToast({
@@ -579,12 +2138,41 @@ export default function Room({ roomId }: RoomProps) {
         description: 'No other users in the room',
         color: 'warning',
       });
-      return;
+      return false;
     }
 
-    setIsSending(true);
+    // Only the chosen participants, or the whole room when none were picked
+    const targets = Array.from(connectionsRef.current.entries())
+      .filter(
+        ([peerId, conn]) =>
+          conn.open && (!recipientIds || recipientIds.includes(peerId)),
+      )
+      .map(([, conn]) => conn);
+    if (targets.length === 0) {
+      addToast({
+        title: 'No Recipients',
+        description: 'The selected users are no longer connected',
+        color: 'warning',
+      });
+      return false;
+    }
 
-    const fileId = existingFileId || `${myPeerId}_${Date.now()}_${file.name}`;
+    let fileHash: string;
+    try {
+      fileHash = await hashFile(file);
+    } catch (error) {
+      console.error('Failed to hash file:', error);
+      addToast({
+        title: 'Error',
+        description: 'Failed to read file',
+        color: 'danger',
+      });
+      return false;
+    }
+
+    const fileId =
+      existingFileId ||
+      `${myPeerId}_${Date.now()}_${bundle?.path ?? file.name}`;
     const metadata: FileMetadata = {
       name: file.name,
       size: file.size,
@@ -592,10 +2180,25 @@ export default function Room({ roomId }: RoomProps) {
       senderId: myPeerId,
       senderName: myName,
       fileId,
+      sha256: fileHash,
+      // Resends keep the audience of the first send
+      audience:
+        (existingFileId &&
+          heldFilesRef.current.get(existingFileId)?.metadata.audience) ||
+        (recipientIds ? 'selected' : 'room'),
+      bundle,
     };
 
-    // Add to sent files immediately with progress 0 (only if not a resend)
+    const isResume = resumeOffset !== undefined;
+    const startOffset = resumeOffset ?? 0;
+    const startProgress = file.size ? (startOffset / file.size) * 100 : 0;
+    const nameOf = (peerId: string) =>
+      usersRef.current.find((u) => u.peerId === peerId)?.name ?? 'Unknown';
+
+    // Record every recipient in history, resetting rows that are being resent
     if (!isResend) {
+      outgoingFilesRef.current.set(fileId, file);
+      holdFile(metadata, file);
       const fileBlob = new Blob([file], { type: file.type });
       setSentFiles((prev) => [
         {
@@ -603,91 +2206,294 @@ export default function Room({ roomId }: RoomProps) {
           downloadUrl: '',
           timestamp: Date.now(),
           blob: fileBlob,
-          progress: 0,
           completed: false,
+          recipients: targets.map((conn) => ({
+            peerId: conn.peer,
+            name: nameOf(conn.peer),
+            progress: 0,
+            status: 'offered',
+          })),
         },
         ...prev,
       ]);
+    } else {
+      setSentFiles((prev) =>
+        prev.map((f) => {
+          if (f.metadata.fileId !== fileId) return f;
+          const recipients = [...f.recipients];
+          targets.forEach((conn) => {
+            const i = recipients.findIndex((r) => r.peerId === conn.peer);
+            const entry: SentRecipient = {
+              peerId: conn.peer,
+              name: nameOf(conn.peer),
+              progress: startProgress,
+              status: isResume ? 'sending' : 'offered',
+              accepted: isResume && recipients[i]?.accepted,
+            };
+            if (i >= 0) recipients[i] = entry;
+            else recipients.push(entry);
+          });
+          return { ...f, recipients };
+        }),
+      );
     }
 
-    broadcastToOthers({ type: 'metadata', payload: metadata });
-
-    const fileReader = new FileReader();
-    let offset = 0;
-
-    fileReader.onload = (e) => {
-      if (e.target?.result) {
-        const chunk = e.target.result as ArrayBuffer;
-        broadcastToOthers({
-          type: 'chunk',
-          payload: chunk,
-          index: 0,
-          totalChunks: 0,
-          fileId,
+    // Resumes were already accepted; anything else waits for the recipient
+    const offerTo = async (conn: DataConnection): Promise<OfferAnswer> => {
+      if (isResume) return 'accepted';
+      conn.send({ type: 'offer', payload: metadata });
+      const answer = await offerWaitersRef.current.wait(fileId, conn.peer);
+      if (answer === 'accepted') {
+        updateRecipient(fileId, conn.peer, { accepted: true });
+      } else {
+        updateRecipient(fileId, conn.peer, {
+          status: answer === 'declined' ? 'declined' : 'failed',
         });
+      }
+      return answer;
+    };
 
-        offset += chunk.byteLength;
-        const progress = (offset / file.size) * 100;
-
-        // Update progress of the sent file in history
-        if (!isResend) {
-          setSentFiles((prev) =>
-            prev.map((f) =>
-              f.metadata.fileId === fileId ? { ...f, progress } : f,
+    // Every direct recipient gets its own read cursor; the scheduler paces
+    // them against each channel's bufferedAmount
+    const streamTo = async (
+      conn: DataConnection,
+      relayTo: RelayNode[] = [],
+    ) => {
+      // Relays forward our chunks as is, so their subtree must decode them too
+      const compression = compressFilesRef.current
+        ? chooseCompression(
+            file,
+            [conn.peer, ...flattenRelayTree(relayTo)].map((peerId) =>
+              peerCompressionRef.current.get(peerId),
             ),
-          );
-        }
+          )
+        : undefined;
+      const stats = compression && { format: compression, raw: 0, wire: 0 };
+      updateRecipient(fileId, conn.peer, {
+        status: 'sending',
+        compression: stats,
+      });
+      conn.send({ type: 'metadata', payload: metadata, relayTo, compression });
+      let offset = startOffset;
+      let index = resumeIndex ?? Math.floor(offset / PIECE_SIZE);
+      const sizer = new ChunkSizer(conn);
+      const sizerKey = `${fileId}:${conn.peer}`;
+      sizersRef.current.set(sizerKey, sizer);
+      const meter = new TransferMeter(file.size, startOffset);
+      const control = streamControlsRef.current.open(fileId, conn.peer);
 
-        if (offset < file.size) {
-          readSlice(offset);
-        } else {
-          broadcastToOthers({ type: 'end', payload: { fileId } });
-          setIsSending(false);
-
-          // Mark as completed and set download URL
-          if (!isResend) {
-            const fileBlob = new Blob([file], { type: file.type });
-            const downloadUrl = URL.createObjectURL(fileBlob);
-            setSentFiles((prev) =>
-              prev.map((f) =>
-                f.metadata.fileId === fileId
-                  ? {
-                      ...f,
-                      downloadUrl,
-                      progress: 100,
-                      completed: true,
-                    }
-                  : f,
-              ),
-            );
+      try {
+        await schedulerRef.current.enqueue(conn, async () => {
+          if (control.cancelled) throw new Error('Transfer cancelled');
+          if (control.paused) return undefined;
+          // Empty files still send one empty chunk
+          if (offset >= file.size && index > 0) return null;
+          const key = chunkKeyRef.current;
+          if (!key) throw new Error('Missing room encryption key');
+          void sizer.probe();
+          const chunk = await file
+            .slice(offset, offset + sizer.size)
+            .arrayBuffer();
+          const packed = compression
+            ? await compressChunk(compression, chunk)
+            : null;
+          const payload = await encryptChunk(key, packed ?? chunk);
+          const remaining = file.size - offset - chunk.byteLength;
+          const message: PeerData = {
+            type: 'chunk',
+            payload,
+            index,
+            // Only exact on the last chunk, which is the one the receiver checks
+            totalChunks: index + 1 + Math.ceil(remaining / sizer.size),
+            hash: sha256(chunk),
+            fileId,
+            ...(packed && { compression }),
+          };
+          sizer.sent(index, payload.byteLength);
+          index += 1;
+          offset += chunk.byteLength;
+          meter.record(chunk.byteLength);
+          if (stats) {
+            stats.raw += chunk.byteLength;
+            stats.wire += (packed ?? chunk).byteLength;
           }
+          updateRecipient(fileId, conn.peer, {
+            progress: file.size ? (offset / file.size) * 100 : 100,
+            compression: stats && { ...stats },
+            link: sizer.stats,
+            rate: meter.rate,
+          });
+          return message;
+        });
 
-          addToast({
-            title: isResend ? 'File Resent' : 'File Sent',
-            description: `${file.name} sent to ${connectionsRef.current.size} user(s)`,
-            color: 'success',
+        conn.send({ type: 'end', payload: { fileId } });
+        updateRecipient(fileId, conn.peer, {
+          progress: 100,
+          status: 'completed',
+        });
+        return 'delivered' as const;
+      } catch (error) {
+        if (control.cancelled) {
+          updateRecipient(fileId, conn.peer, {
+            status: 'cancelled',
+            rate: undefined,
           });
+          return 'cancelled' as const;
         }
+        updateRecipient(fileId, conn.peer, { status: 'failed' });
+        throw error;
+      } finally {
+        sizersRef.current.delete(sizerKey);
+        streamControlsRef.current.close(fileId, conn.peer);
       }
     };
 
-    fileReader.onerror = () => {
-      setIsSending(false);
+    const answers = targets.map(offerTo);
+
+    // Large rooms get a relay tree so our upload stays at RELAY_FANOUT
+    // streams. Peers that accept after the tree is built are served directly.
+    let relayTree: RelayNode[] = [];
+    if (!isResume && targets.length >= RELAY_MIN_RECIPIENTS) {
+      const early = await gatherAccepted(
+        targets.map((conn) => conn.peer),
+        answers,
+      );
+      if (early.length >= RELAY_MIN_RECIPIENTS) {
+        relayTree = buildRelayTree(early);
+      }
+    }
+    const relayed = new Set(
+      flattenRelayTree(relayTree.flatMap((node) => node.relayTo)),
+    );
+    // Taken by the first stream and kept until the file is done
+    let slot: Promise<void> | undefined;
+
+    const results = await Promise.allSettled(
+      targets.map(async (conn, i) => {
+        const answer = await answers[i];
+        if (answer !== 'accepted') return answer;
+
+        if (relayed.has(conn.peer)) {
+          updateRecipient(fileId, conn.peer, { status: 'relayed' });
+          return 'relayed' as const;
+        }
+        await (slot ??= waitForSlot?.());
+        const node = relayTree.find((n) => n.peerId === conn.peer);
+        return streamTo(conn, node?.relayTo);
+      }),
+    );
+
+    const delivered = results.filter(
+      (r) =>
+        r.status === 'fulfilled' &&
+        (r.value === 'delivered' || r.value === 'relayed'),
+    ).length;
+    const declined = results.filter(
+      (r) => r.status === 'fulfilled' && r.value === 'declined',
+    ).length;
+    const cancelled = results.filter(
+      (r) => r.status === 'fulfilled' && r.value === 'cancelled',
+    ).length;
+    if (delivered === 0 && declined > 0) {
+      addToast({
+        title: 'Offer Declined',
+        description: `${file.name} was declined by ${declined} user(s)`,
+        color: 'warning',
+      });
+      return true;
+    }
+    // The history table already shows who cancelled
+    if (delivered === 0 && cancelled > 0) return true;
+    if (delivered === 0) {
+      console.error('Send failed:', results);
       addToast({
         title: 'Error',
-        description: 'Failed to read file',
+        description: `Failed to send ${file.name}`,
         color: 'danger',
       });
-    };
+      return false;
+    }
 
-    const readSlice = (o: number) => {
-      const slice = file.slice(o, o + CHUNK_SIZE);
-      fileReader.readAsArrayBuffer(slice);
-    };
+    // Mark as completed and set download URL
+    if (!isResend) {
+      const fileBlob = new Blob([file], { type: file.type });
+      const downloadUrl = URL.createObjectURL(fileBlob);
+      setSentFiles((prev) =>
+        prev.map((f) =>
+          f.metadata.fileId === fileId
+            ? {
+                ...f,
+                downloadUrl,
+                completed: true,
+              }
+            : f,
+        ),
+      );
+    }
+
+    addToast({
+      title: isResume
+        ? 'Transfer Resumed'
+        : isResend
+          ? 'File Resent'
+          : 'File Sent',
+      description: `${file.name} sent to ${delivered} user(s)`,
+      color: 'success',
+    });
+    return true;
+  };
+
+  useEffect(() => {
+    sendSingleFileRef.current = sendSingleFile;
+  });
+
+  // Ignore selections for users who have since left the room
+  const activeRecipients = selectedRecipients.filter((peerId) =>
+    users.some((u) => u.peerId === peerId),
+  );
+
+  // Room files we could fetch from members but are not already getting
+  const availableFiles = roomFiles.filter(({ metadata }) => {
+    const { fileId, senderId } = metadata;
+    if (senderId === myPeerId) return false;
+    if (pendingOffers.some((o) => o.metadata.fileId === fileId)) return false;
+    const received = receivedFiles.get(fileId);
+    if (!received || received.cancelled) return true;
+    if (received.completed || received.swarm) return false;
+    return !users.some((u) => u.peerId === senderId);
+  });
+
+  // Offers for the files of one folder are answered together
+  const offerGroups = Array.from(
+    pendingOffers
+      .reduce((groups, offer) => {
+        const { bundle, fileId } = offer.metadata;
+        const key = bundle ? `${offer.peerId}:${bundle.id}` : fileId;
+        return groups.set(key, [...(groups.get(key) ?? []), offer]);
+      }, new Map<string, PendingOffer[]>())
+      .entries(),
+  );
 
-    readSlice(0);
+  const toggleRecipient = (peerId: string) => {
+    setSelectedRecipients((prev) =>
+      prev.includes(peerId)
+        ? prev.filter((id) => id !== peerId)
+        : [...prev, peerId],
+    );
   };
 
+  // Files already waiting to go out again, so a resend is not queued twice
+  const pendingResends = new Set(
+    sendQueue
+      .filter(
+        (item) =>
+          item.state === 'queued' ||
+          item.state === 'offered' ||
+          item.state === 'sending',
+      )
+      .map((item) => item.options.existingFileId),
+  );
+
   const sendFileToAll = () => {
     if (selectedFiles.length === 0 || !myPeerId || !myName) return;
 
@@ -700,14 +2506,35 @@ export default function Room({ roomId }: RoomProps) {
       return;
     }
 
-    selectedFiles.forEach((file) => sendSingleFile(file));
+    const recipientIds =
+      activeRecipients.length > 0 ? activeRecipients : undefined;
+    sendQueueRef.current.enqueue(
+      groupByFolder(selectedFiles).flatMap(({ folder, entries }) => {
+        if (!folder)
+          return [{ file: entries[0].file, options: { recipientIds } }];
+        const id = `${myPeerId}_${Date.now()}_${folder}`;
+        return entries.map(({ file, path }) => ({
+          file,
+          options: {
+            recipientIds,
+            bundle: { id, name: folder, path, count: entries.length },
+          },
+        }));
+      }),
+    );
     setSelectedFiles([]);
     if (fileInputRef.current) fileInputRef.current.value = '';
+    if (folderInputRef.current) folderInputRef.current.value = '';
   };
 
   const roomUrl =
     typeof window !== 'undefined'
-      ? `${window.location.origin}/room/${roomId}`
+      ? withSecret(
+          `${window.location.origin}/room/${roomId}${
+            shareToken ? `?invite=${shareToken}` : ''
+          }`,
+          roomSecret,
+        )
       : '';
 
   const copyRoomLink = () => {
@@ -782,6 +2609,26 @@ export default function Room({ roomId }: RoomProps) {
     }
   };
 
+  const requestShortCode = async () => {
+    setIsCreatingCode(true);
+    try {
+      const code = await createShortCode(
+        'room',
+        roomId,
+        withSecret(shareToken ? `?invite=${shareToken}` : '', roomSecret),
+      );
+      setShortCode(code);
+    } catch (error) {
+      addToast({
+        title: 'Could not create a code',
+        description: (error as Error).message,
+        color: 'danger',
+      });
+    } finally {
+      setIsCreatingCode(false);
+    }
+  };
+
   const openShareModal = async () => {
     if (!roomUrl) return;
     setIsShareOpen(true);
@@ -810,32 +2657,218 @@ export default function Room({ roomId }: RoomProps) {
         direction: 'received' as const,
         name: file.metadata.name,
         size: file.metadata.size,
+        peerId: file.metadata.senderId,
         peerName: file.metadata.senderName,
         downloadUrl: file.downloadUrl,
         progress: file.progress,
         completed: file.completed,
+        failed: false,
+        recipientStatus: undefined,
+        integrity: file.integrity,
+        storage: file.storage,
+        compression: file.compression,
+        link: undefined,
+        rate: file.rate,
+        active: !file.completed && !file.cancelled,
+        paused: !!file.paused,
+        cancelled: !!file.cancelled,
         timestamp: file.completedAt ?? file.timestamp,
         file,
       }),
     );
 
-    const sentList = sentFiles.map((file, index) => ({
-      id: `sent-${file.metadata.fileId || file.metadata.name}-${index}`,
-      direction: 'sent' as const,
-      name: file.metadata.name,
-      size: file.metadata.size,
-      peerName: 'Everyone',
-      downloadUrl: file.downloadUrl,
-      progress: file.progress ?? 100,
-      completed: file.completed ?? true,
-      timestamp: file.timestamp,
-      file,
-    }));
-
-    return [...sentList, ...receivedList].sort(
-      (a, b) => b.timestamp - a.timestamp,
+    // One row per recipient so each delivery has its own progress
+    const sentList = sentFiles.flatMap((file) =>
+      file.recipients.map((recipient) => ({
+        id: `sent-${file.metadata.fileId}-${recipient.peerId}`,
+        direction: 'sent' as const,
+        name: file.metadata.name,
+        size: file.metadata.size,
+        peerId: recipient.peerId,
+        peerName: recipient.name,
+        downloadUrl: file.downloadUrl,
+        progress: recipient.progress,
+        completed: recipient.status === 'completed',
+        failed: recipient.status === 'failed',
+        recipientStatus: recipient.status,
+        integrity: undefined,
+        storage: undefined,
+        compression: recipient.compression,
+        link: recipient.link,
+        rate: recipient.rate,
+        active: recipient.status === 'sending' || recipient.status === 'paused',
+        paused: recipient.status === 'paused',
+        cancelled: recipient.status === 'cancelled',
+        timestamp: file.timestamp,
+        file,
+      })),
+    );
+
+    type Row = (typeof sentList)[number] | (typeof receivedList)[number];
+    type HistoryRow = Row & { depth: number; entries?: Row[] };
+
+    // Files of a folder collapse into one row per folder and peer
+    const rows: HistoryRow[] = [];
+    const bundles = new Map<string, Row[]>();
+    [...sentList, ...receivedList].forEach((row) => {
+      const bundle = row.file.metadata.bundle;
+      if (!bundle) {
+        rows.push({ ...row, depth: 0 });
+        return;
+      }
+      const key = `${row.direction}-${bundle.id}-${row.peerId}`;
+      bundles.set(key, [...(bundles.get(key) ?? []), row]);
+    });
+
+    bundles.forEach((entries, key) => {
+      const first = entries[0];
+      const size = entries.reduce((sum, e) => sum + e.size, 0);
+      const statuses = new Set(entries.map((e) => e.recipientStatus));
+      rows.push({
+        ...first,
+        id: `bundle-${key}`,
+        name: first.file.metadata.bundle!.name,
+        size,
+        downloadUrl: null,
+        compression: undefined,
+        link: undefined,
+        rate: undefined,
+        // Controls act on single files, so a folder row has none
+        active: false,
+        paused: entries.every((e) => e.paused),
+        cancelled: entries.every((e) => e.cancelled),
+        progress: size
+          ? entries.reduce((sum, e) => sum + e.progress * e.size, 0) / size
+          : 0,
+        completed: entries.every((e) => e.completed),
+        failed: entries.some((e) => e.failed),
+        recipientStatus:
+          statuses.size === 1 ? first.recipientStatus : undefined,
+        integrity:
+          first.direction === 'sent'
+            ? undefined
+            : entries.some((e) => e.integrity === 'corrupted')
+              ? 'corrupted'
+              : entries.every((e) => e.integrity === 'verified')
+                ? 'verified'
+                : 'pending',
+        timestamp: Math.max(...entries.map((e) => e.timestamp)),
+        depth: 0,
+        entries: entries.sort((a, b) =>
+          a.file.metadata.bundle!.path.localeCompare(
+            b.file.metadata.bundle!.path,
+          ),
+        ),
+      } as HistoryRow);
+    });
+
+    return rows
+      .sort((a, b) => b.timestamp - a.timestamp)
+      .flatMap((row): HistoryRow[] =>
+        row.entries && expandedBundles.has(row.id)
+          ? [row, ...row.entries.map((e) => ({ ...e, depth: 1 }))]
+          : [row],
+      );
+  }, [expandedBundles, receivedFiles, sentFiles]);
+
+  // History rows steer either a stream we send or a file we receive
+  const pauseTransfer = (
+    direction: 'sent' | 'received',
+    fileId: string,
+    peerId: string,
+    paused: boolean,
+  ) =>
+    direction === 'sent'
+      ? setStreamPaused(fileId, peerId, paused)
+      : setReceivePaused(fileId, paused);
+
+  const cancelTransfer = (
+    direction: 'sent' | 'received',
+    fileId: string,
+    peerId: string,
+  ) =>
+    direction === 'sent' ? cancelStream(fileId, peerId) : cancelReceive(fileId);
+
+  const toggleBundle = (id: string) => {
+    setExpandedBundles((prev) => {
+      const next = new Set(prev);
+      if (!next.delete(id)) next.add(id);
+      return next;
+    });
+  };
+
+  // Completed files of a received folder, read back from their object URLs
+  const readBundle = async (entries: { file: ReceivedFile | SentFile }[]) =>
+    Promise.all(
+      entries.map(async ({ file }) => ({
+        path: file.metadata.bundle?.path ?? file.metadata.name,
+        blob: await fetch(file.downloadUrl!).then((res) => res.blob()),
+      })),
+    );
+
+  const saveBundleToFolder = async (
+    entries: { file: ReceivedFile | SentFile }[],
+  ) => {
+    const directory = await pickDownloadDirectory();
+    if (!directory) return;
+    try {
+      await saveToDirectory(directory, await readBundle(entries));
+      addToast({
+        title: 'Folder Saved',
+        description: `Saved ${entries.length} files to "${directory.name}"`,
+        color: 'success',
+      });
+    } catch (error) {
+      console.error('Failed to save folder:', error);
+      addToast({
+        title: 'Save Failed',
+        description: 'Could not write the folder to disk',
+        color: 'danger',
+      });
+    }
+  };
+
+  const downloadBundleZip = async (
+    name: string,
+    entries: { file: ReceivedFile | SentFile }[],
+  ) => {
+    try {
+      const zip = await createZip(await readBundle(entries));
+      const url = URL.createObjectURL(zip);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `${name}.zip`;
+      link.click();
+      // Give the browser time to start the download before releasing it
+      setTimeout(() => URL.revokeObjectURL(url), 60 * 1000);
+    } catch (error) {
+      console.error('Failed to build zip:', error);
+      addToast({
+        title: 'Zip Failed',
+        description:
+          error instanceof Error ? error.message : 'Could not build the zip',
+        color: 'danger',
+      });
+    }
+  };
+
+  const resendBundle = (peerId: string, entries: { file: SentFile }[]) => {
+    sendQueueRef.current.enqueue(
+      entries
+        .filter(({ file }) => file.blob)
+        .map(({ file }) => ({
+          file: new File([file.blob!], file.metadata.name, {
+            type: file.metadata.type,
+          }),
+          options: {
+            isResend: true,
+            existingFileId: file.metadata.fileId,
+            recipientIds: [peerId],
+            bundle: file.metadata.bundle,
+          },
+        })),
     );
-  }, [receivedFiles, sentFiles]);
+  };
 
   const handleLeaveRoom = async () => {
     if (myPeerIdRef.current) {
@@ -849,18 +2882,45 @@ export default function Room({ roomId }: RoomProps) {
         // Remove from server registry
         await fetch(`/api/rooms/${roomId}/peers`, {
           method: 'DELETE',
-          headers: { 'Content-Type': 'application/json' },
+          headers: jsonHeaders(memberTokenRef.current),
           body: JSON.stringify({ peerId: myPeerIdRef.current }),
         });
 
         // Close all connections
         connectionsRef.current.forEach((conn) => conn.close());
         connectionsRef.current.clear();
+        outgoingFilesRef.current.clear();
+        verifiersRef.current.clear();
+        sinksRef.current.forEach((sink) => sink.abort());
+        sinksRef.current.clear();
+        acceptedOffersRef.current.clear();
+        bundleAnswersRef.current.clear();
+        peerCompressionRef.current.clear();
+        metersRef.current.clear();
+        // Their connections are gone, so queued streams fail right away
+        sendQueueRef.current.reset();
+        offerWaitersRef.current.abandon();
 
         // Reset state
+        memberTokenRef.current = null;
+        chunkKeyRef.current = null;
+        missedHeartbeatsRef.current.clear();
+        relayParentsRef.current.clear();
+        relaysRef.current.clear();
+        swarmsRef.current.forEach((swarm) => swarm.stop());
+        swarmsRef.current.clear();
+        heldFilesRef.current.clear();
+        availabilityRef.current.clear();
+        setRoomFiles([]);
+        setPeerTtl(null);
+        inboxRef.current.clear();
+        setShareToken(null);
         setIsJoined(false);
+        isJoinedRef.current = false;
         setUsers([]);
         setSelectedFiles([]);
+        setSelectedRecipients([]);
+        setPendingOffers([]);
         setReceivedFiles(new Map());
         setSentFiles([]);
         setStatus('Left room');
@@ -908,6 +2968,18 @@ export default function Room({ roomId }: RoomProps) {
             radius="lg"
             onKeyDown={(e) => e.key === 'Enter' && joinRoom()}
           />
+          {!inviteToken && (
+            <Input
+              type="password"
+              label="Room Password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              placeholder="Optional, sets or unlocks a password"
+              size="lg"
+              radius="lg"
+              onKeyDown={(e) => e.key === 'Enter' && joinRoom()}
+            />
+          )}
           <Button
             onPress={joinRoom}
             color="primary"
@@ -924,7 +2996,11 @@ export default function Room({ roomId }: RoomProps) {
           {status && status !== 'Joining room...' && (
             <Chip
               variant="flat"
-              color={status.includes('Failed') ? 'danger' : 'default'}
+              color={
+                status.includes('Failed') || status.includes('password')
+                  ? 'danger'
+                  : 'default'
+              }
               size="sm"
               className="mx-auto"
             >
@@ -972,6 +3048,18 @@ export default function Room({ roomId }: RoomProps) {
                   Share
                 </Button>
               </Tooltip>
+              <Tooltip content="Connection details" placement="bottom">
+                <Button
+                  size="sm"
+                  variant="flat"
+                  radius="lg"
+                  isIconOnly
+                  aria-label="Connection details"
+                  onPress={() => setIsDiagnosticsOpen(true)}
+                >
+                  <Activity className="h-4 w-4" />
+                </Button>
+              </Tooltip>
               <Tooltip content="Leave room" placement="bottom">
                 <Button
                   size="sm"
@@ -1023,30 +3111,89 @@ export default function Room({ roomId }: RoomProps) {
                   </span>
                 </div>
               </Tooltip>
-              {users.map((user) => (
-                <Tooltip
-                  key={user.peerId}
-                  content={user.name}
-                  placement="bottom"
-                >
-                  <div className="flex flex-col items-center gap-1.5 transition-transform hover:scale-105">
-                    <Avatar
-                      name={user.name}
-                      className="h-12 w-12"
-                      color="secondary"
-                      isBordered
-                    />
-                    <span className="text-default-600 text-xs">
-                      {user.name}
-                    </span>
-                  </div>
-                </Tooltip>
-              ))}
+              {users.map((user) => {
+                const isRecipient = activeRecipients.includes(user.peerId);
+                return (
+                  <Tooltip
+                    key={user.peerId}
+                    content={
+                      isRecipient
+                        ? `Remove ${user.name} from recipients`
+                        : `Send only to ${user.name}`
+                    }
+                    placement="bottom"
+                  >
+                    <button
+                      type="button"
+                      aria-pressed={isRecipient}
+                      onClick={() => toggleRecipient(user.peerId)}
+                      className="flex cursor-pointer flex-col items-center gap-1.5 transition-transform hover:scale-105"
+                    >
+                      <Avatar
+                        name={user.name}
+                        className="h-12 w-12"
+                        color={isRecipient ? 'success' : 'secondary'}
+                        isBordered
+                      />
+                      <span
+                        className={
+                          isRecipient
+                            ? 'text-success-600 text-xs font-semibold'
+                            : 'text-default-600 text-xs'
+                        }
+                      >
+                        {user.name}
+                      </span>
+                    </button>
+                  </Tooltip>
+                );
+              })}
             </div>
+            {activeRecipients.length > 0 && (
+              <div className="mt-4 flex items-center gap-2">
+                <span className="text-default-500 text-xs">
+                  Files will only go to {activeRecipients.length} selected user
+                  {activeRecipients.length !== 1 ? 's' : ''}
+                </span>
+                <Button
+                  size="sm"
+                  variant="light"
+                  radius="lg"
+                  onPress={() => setSelectedRecipients([])}
+                >
+                  Send to everyone
+                </Button>
+              </div>
+            )}
           </div>
 
+          <IncomingOffers groups={offerGroups} onAnswer={answerOffers} />
+
+          <RoomFiles
+            files={availableFiles}
+            isStarted={(fileId) => receivedFiles.has(fileId)}
+            onDownload={startSwarmDownload}
+          />
+
           {/* Send File Section */}
-          <div>
+          <div
+            onDragOver={(e) => {
+              e.preventDefault();
+              setIsDragging(true);
+            }}
+            onDragLeave={(e) => {
+              // Leaving for a child element is not leaving the drop zone
+              if (!e.currentTarget.contains(e.relatedTarget as Node)) {
+                setIsDragging(false);
+              }
+            }}
+            onDrop={handleDrop}
+            className={
+              isDragging
+                ? 'border-primary bg-primary-50 -m-3 rounded-xl border-2 border-dashed p-3'
+                : undefined
+            }
+          >
             <div className="mb-4 flex items-center gap-2">
               <div className="from-primary-100 to-primary-200 flex h-8 w-8 items-center justify-center rounded-lg bg-linear-to-br">
                 <UploadCloud className="text-primary h-5 w-5" />
@@ -1061,18 +3208,45 @@ export default function Room({ roomId }: RoomProps) {
                 onChange={handleFileChange}
                 className="hidden"
               />
-              <Button
-                onPress={() => fileInputRef.current?.click()}
-                variant="bordered"
-                size="lg"
-                radius="lg"
-                className="hover:border-primary w-full transition-colors"
-                startContent={<UploadCloud className="h-5 w-5" />}
-              >
-                {selectedFiles.length > 0
-                  ? `${selectedFiles.length} file(s) selected`
-                  : 'Choose Files'}
-              </Button>
+              <input
+                ref={(input) => {
+                  folderInputRef.current = input;
+                  // Not in React's typings, so it is set on the element directly
+                  input?.setAttribute('webkitdirectory', '');
+                }}
+                type="file"
+                onChange={handleFileChange}
+                className="hidden"
+              />
+              <div className="flex gap-2">
+                <Button
+                  onPress={() => fileInputRef.current?.click()}
+                  variant="bordered"
+                  size="lg"
+                  radius="lg"
+                  className="hover:border-primary flex-1 transition-colors"
+                  startContent={<UploadCloud className="h-5 w-5" />}
+                >
+                  {selectedFiles.length > 0
+                    ? `${selectedFiles.length} file(s) selected`
+                    : 'Choose Files'}
+                </Button>
+                <Button
+                  onPress={() => folderInputRef.current?.click()}
+                  variant="bordered"
+                  size="lg"
+                  radius="lg"
+                  className="hover:border-primary transition-colors"
+                  startContent={<FolderUp className="h-5 w-5" />}
+                >
+                  Choose Folder
+                </Button>
+              </div>
+              {selectedFiles.length === 0 && (
+                <p className="text-default-400 text-center text-xs">
+                  or drop files and folders here
+                </p>
+              )}
               {selectedFiles.length > 0 && (
                 <div className="space-y-3">
                   <div className="bg-primary-50 border-primary-200 rounded-lg border p-3">
@@ -1080,31 +3254,46 @@ export default function Room({ roomId }: RoomProps) {
                       Selected Files ({selectedFiles.length})
                     </p>
                     <div className="flex flex-wrap gap-2">
-                      {selectedFiles.map((file, index) => (
-                        <Chip
-                          key={index}
-                          variant="flat"
-                          color="primary"
-                          size="sm"
-                          radius="md"
-                          startContent={
-                            <FileIcon className="h-3.5 w-3.5 shrink-0" />
-                          }
-                          onClose={() =>
-                            setSelectedFiles((prev) =>
-                              prev.filter((_, i) => i !== index),
-                            )
-                          }
-                          className="text-xs"
-                        >
-                          <span className="line-clamp-1">
-                            {file.name}
-                            <span className="text-primary-600 ml-1 opacity-70">
-                              ({formatBytes(file.size)})
+                      {groupByFolder(selectedFiles).map(
+                        ({ folder, entries }) => (
+                          <Chip
+                            key={folder ?? entries[0].path}
+                            variant="flat"
+                            color="primary"
+                            size="sm"
+                            radius="md"
+                            startContent={
+                              folder ? (
+                                <Folder className="h-3.5 w-3.5 shrink-0" />
+                              ) : (
+                                <FileIcon className="h-3.5 w-3.5 shrink-0" />
+                              )
+                            }
+                            onClose={() =>
+                              setSelectedFiles((prev) =>
+                                prev.filter((e) => !entries.includes(e)),
+                              )
+                            }
+                            className="text-xs"
+                          >
+                            <span className="line-clamp-1">
+                              {folder
+                                ? `${folder}/ · ${entries.length} files`
+                                : entries[0].file.name}
+                              <span className="text-primary-600 ml-1 opacity-70">
+                                (
+                                {formatBytes(
+                                  entries.reduce(
+                                    (sum, e) => sum + e.file.size,
+                                    0,
+                                  ),
+                                )}
+                                )
+                              </span>
                             </span>
-                          </span>
-                        </Chip>
-                      ))}
+                          </Chip>
+                        ),
+                      )}
                     </div>
                   </div>
 
@@ -1119,13 +3308,104 @@ export default function Room({ roomId }: RoomProps) {
                   >
                     {connectionsRef.current.size === 0
                       ? 'No users to send to'
-                      : `Send to ${connectionsRef.current.size} user${connectionsRef.current.size !== 1 ? 's' : ''}`}
+                      : activeRecipients.length === 1
+                        ? `Send to ${users.find((u) => u.peerId === activeRecipients[0])?.name}`
+                        : activeRecipients.length > 1
+                          ? `Send to ${activeRecipients.length} selected users`
+                          : `Send to ${connectionsRef.current.size} user${connectionsRef.current.size !== 1 ? 's' : ''}`}
                   </Button>
                 </div>
               )}
             </div>
           </div>
 
+          <OutgoingQueue
+            items={sendQueue}
+            onConcurrencyChange={(concurrency) =>
+              sendQueueRef.current.setConcurrency(concurrency)
+            }
+            onClearFinished={() => sendQueueRef.current.clearFinished()}
+            onMove={(id, beforeId) => sendQueueRef.current.move(id, beforeId)}
+            onRemove={(id) => sendQueueRef.current.remove(id)}
+          />
+
+          <div className="bg-default-50 border-default-100 flex items-center justify-between gap-3 rounded-xl border px-4 py-3">
+            <span className="text-default-600 text-sm">
+              Compress files that are not already compressed
+            </span>
+            <Switch
+              size="sm"
+              aria-label="Compress outgoing files"
+              isSelected={compressFiles}
+              onValueChange={(value) => {
+                setCompressFiles(value);
+                compressFilesRef.current = value;
+              }}
+            />
+          </div>
+
+          <div className="bg-default-50 border-default-100 flex items-center justify-between gap-3 rounded-xl border px-4 py-3">
+            <span className="text-default-600 text-sm">
+              Show this room to devices on the same network
+            </span>
+            <Switch
+              size="sm"
+              aria-label="Show this room to nearby devices"
+              isSelected={isVisibleNearby}
+              onValueChange={(value) => {
+                setIsVisibleNearby(value);
+                isVisibleNearbyRef.current = value;
+              }}
+            />
+          </div>
+          <NearbyRequests
+            requests={accessRequests}
+            subject="this room"
+            onAnswer={answerNearby}
+          />
+
+          <div className="bg-default-50 border-default-100 flex items-center justify-between gap-3 rounded-xl border px-4 py-3">
+            <span className="text-default-600 text-sm">
+              Auto-accept incoming files up to
+            </span>
+            <Input
+              size="sm"
+              type="number"
+              min={0}
+              aria-label="Auto-accept size limit in MB"
+              placeholder="Off"
+              value={autoAcceptMb}
+              onValueChange={(value) => {
+                setAutoAcceptMb(value);
+                autoAcceptLimitRef.current =
+                  Math.max(0, Number(value) || 0) * 1024 * 1024;
+              }}
+              endContent={<span className="text-default-400 text-xs">MB</span>}
+              className="max-w-32"
+            />
+          </div>
+
+          {canPickFolder && (
+            <div className="bg-default-50 border-default-100 flex items-center justify-between gap-3 rounded-xl border px-4 py-3">
+              <div className="flex min-w-0 items-center gap-2">
+                <FolderDown className="text-default-500 h-4 w-4 shrink-0" />
+                <span className="text-default-600 line-clamp-1 text-sm">
+                  {downloadDirName
+                    ? `Saving incoming files to "${downloadDirName}"`
+                    : 'Incoming files are kept in browser storage'}
+                </span>
+              </div>
+              <Button
+                size="sm"
+                variant="flat"
+                radius="lg"
+                onPress={chooseDownloadFolder}
+              >
+                {downloadDirName ? 'Change folder' : 'Choose folder'}
+              </Button>
+            </div>
+          )}
+
           {/* File History (virtualized table, merged sent/received) */}
           {historyItems.length > 0 && (
             <div className="space-y-3">
@@ -1147,7 +3427,7 @@ export default function Room({ roomId }: RoomProps) {
                   <TableColumn key="type">Type</TableColumn>
                   <TableColumn key="name">Name</TableColumn>
                   <TableColumn key="size">Size</TableColumn>
-                  <TableColumn key="peer">From</TableColumn>
+                  <TableColumn key="peer">Peer</TableColumn>
                   <TableColumn key="status">Status</TableColumn>
                   <TableColumn key="actions">Actions</TableColumn>
                 </TableHeader>
@@ -1166,39 +3446,271 @@ export default function Room({ roomId }: RoomProps) {
                         </Chip>
                       </TableCell>
                       <TableCell>
-                        <Tooltip content={item.name} placement="top">
-                          <div className="max-w-[220px] overflow-hidden text-ellipsis whitespace-nowrap">
-                            {item.name}
-                          </div>
-                        </Tooltip>
+                        {item.entries ? (
+                          <button
+                            type="button"
+                            onClick={() => toggleBundle(item.id)}
+                            className="flex max-w-[220px] items-center gap-1"
+                          >
+                            {expandedBundles.has(item.id) ? (
+                              <ChevronDown className="h-4 w-4 shrink-0" />
+                            ) : (
+                              <ChevronRight className="h-4 w-4 shrink-0" />
+                            )}
+                            <Folder className="text-default-500 h-4 w-4 shrink-0" />
+                            <span className="overflow-hidden text-ellipsis whitespace-nowrap">
+                              {item.name}
+                              <span className="text-default-400 ml-1 text-xs">
+                                ({item.entries.length})
+                              </span>
+                            </span>
+                          </button>
+                        ) : (
+                          <Tooltip
+                            content={
+                              item.file.metadata.bundle?.path ?? item.name
+                            }
+                            placement="top"
+                          >
+                            <div
+                              className={`max-w-[220px] overflow-hidden text-ellipsis whitespace-nowrap ${
+                                item.depth > 0 ? 'text-default-500 pl-6' : ''
+                              }`}
+                            >
+                              {item.depth > 0
+                                ? item.file.metadata.bundle!.path.slice(
+                                    item.file.metadata.bundle!.name.length + 1,
+                                  )
+                                : item.name}
+                            </div>
+                          </Tooltip>
+                        )}
                       </TableCell>
                       <TableCell className="whitespace-nowrap">
                         {formatBytes(item.size)}
+                        {item.compression &&
+                          formatRatio(
+                            item.compression.raw,
+                            item.compression.wire,
+                          ) && (
+                            <Tooltip
+                              content={`${item.compression.format}: ${formatBytes(item.compression.raw)} sent as ${formatBytes(item.compression.wire)}`}
+                              placement="top"
+                            >
+                              <span className="text-success ml-1 text-xs">
+                                {formatRatio(
+                                  item.compression.raw,
+                                  item.compression.wire,
+                                )}
+                              </span>
+                            </Tooltip>
+                          )}
                       </TableCell>
                       <TableCell>
-                        {item.direction === 'sent' ? 'You' : `${item.peerName}`}
+                        {item.direction === 'sent'
+                          ? `To ${item.peerName}`
+                          : `From ${item.peerName}`}
                       </TableCell>
                       <TableCell>
-                        {item.completed ? (
+                        {item.recipientStatus === 'offered' ? (
+                          <Chip size="sm" color="default" variant="flat">
+                            Awaiting response
+                          </Chip>
+                        ) : item.recipientStatus === 'relayed' ? (
+                          <Chip size="sm" color="secondary" variant="flat">
+                            Via relay
+                          </Chip>
+                        ) : item.recipientStatus === 'declined' ? (
+                          <Chip size="sm" color="warning" variant="flat">
+                            Declined
+                          </Chip>
+                        ) : item.cancelled ? (
+                          <Chip size="sm" color="default" variant="flat">
+                            Cancelled
+                          </Chip>
+                        ) : item.failed ? (
+                          <Chip size="sm" color="danger" variant="flat">
+                            Failed
+                          </Chip>
+                        ) : item.integrity === 'corrupted' ? (
+                          <Chip size="sm" color="danger" variant="flat">
+                            Corrupted
+                          </Chip>
+                        ) : item.integrity === 'verified' ? (
+                          <Chip size="sm" color="success" variant="flat">
+                            Verified
+                          </Chip>
+                        ) : item.completed ? (
                           <Chip size="sm" color="success" variant="flat">
                             Completed
                           </Chip>
                         ) : (
-                          <Progress
-                            isStriped
-                            showValueLabel
-                            className="min-w-[140px]"
-                            value={item.progress}
-                            color="success"
-                            size="sm"
-                          />
+                          <Tooltip
+                            isDisabled={!item.rate}
+                            content={
+                              item.rate &&
+                              [
+                                `Average ${formatBytes(item.rate.average)}/s`,
+                                item.link &&
+                                  `${formatBytes(item.link.chunkSize)} chunks`,
+                              ]
+                                .filter(Boolean)
+                                .join(' · ')
+                            }
+                            placement="top"
+                          >
+                            <Progress
+                              isStriped={!item.paused}
+                              showValueLabel
+                              label={
+                                item.paused ? 'Paused' : rateLabel(item.rate)
+                              }
+                              classNames={{
+                                label: 'text-tiny text-default-500',
+                              }}
+                              className="min-w-[140px]"
+                              value={item.progress}
+                              color={item.paused ? 'warning' : 'success'}
+                              size="sm"
+                            />
+                          </Tooltip>
                         )}
                       </TableCell>
                       <TableCell>
                         <div className="flex gap-2">
-                          {item.direction === 'sent' ? (
+                          {item.active && !item.entries ? (
+                            <>
+                              <Tooltip
+                                content={
+                                  item.paused
+                                    ? 'Resume transfer'
+                                    : 'Pause transfer'
+                                }
+                                placement="top"
+                              >
+                                <Button
+                                  isIconOnly
+                                  size="sm"
+                                  color="primary"
+                                  variant="flat"
+                                  radius="lg"
+                                  startContent={
+                                    item.paused ? (
+                                      <Play className="h-4 w-4" />
+                                    ) : (
+                                      <Pause className="h-4 w-4" />
+                                    )
+                                  }
+                                  onPress={() =>
+                                    pauseTransfer(
+                                      item.direction,
+                                      item.file.metadata.fileId,
+                                      item.peerId,
+                                      !item.paused,
+                                    )
+                                  }
+                                />
+                              </Tooltip>
+                              <Tooltip
+                                content="Cancel transfer"
+                                placement="top"
+                              >
+                                <Button
+                                  isIconOnly
+                                  size="sm"
+                                  color="danger"
+                                  variant="flat"
+                                  radius="lg"
+                                  startContent={<X className="h-4 w-4" />}
+                                  onPress={() =>
+                                    cancelTransfer(
+                                      item.direction,
+                                      item.file.metadata.fileId,
+                                      item.peerId,
+                                    )
+                                  }
+                                />
+                              </Tooltip>
+                            </>
+                          ) : item.entries && item.direction === 'sent' ? (
+                            <Tooltip
+                              content={`Resend folder to ${item.peerName}`}
+                              placement="top"
+                            >
+                              <Button
+                                isIconOnly
+                                size="sm"
+                                color="warning"
+                                variant="flat"
+                                radius="lg"
+                                startContent={<Send className="h-4 w-4" />}
+                                onPress={() =>
+                                  resendBundle(
+                                    item.peerId,
+                                    item.entries as { file: SentFile }[],
+                                  )
+                                }
+                                isDisabled={
+                                  !connectionsRef.current.has(item.peerId) ||
+                                  item.entries.some((e) =>
+                                    pendingResends.has(e.file.metadata.fileId),
+                                  )
+                                }
+                              />
+                            </Tooltip>
+                          ) : item.entries ? (
+                            item.completed ? (
+                              <>
+                                {canPickFolder && (
+                                  <Tooltip
+                                    content="Save as folder"
+                                    placement="top"
+                                  >
+                                    <Button
+                                      isIconOnly
+                                      size="sm"
+                                      color="primary"
+                                      variant="flat"
+                                      radius="lg"
+                                      startContent={
+                                        <FolderDown className="h-4 w-4" />
+                                      }
+                                      onPress={() =>
+                                        saveBundleToFolder(item.entries!)
+                                      }
+                                    />
+                                  </Tooltip>
+                                )}
+                                <Tooltip
+                                  content="Download as zip"
+                                  placement="top"
+                                >
+                                  <Button
+                                    isIconOnly
+                                    size="sm"
+                                    color="success"
+                                    variant="flat"
+                                    radius="lg"
+                                    startContent={
+                                      <FileArchive className="h-4 w-4" />
+                                    }
+                                    onPress={() =>
+                                      downloadBundleZip(
+                                        item.name,
+                                        item.entries!,
+                                      )
+                                    }
+                                  />
+                                </Tooltip>
+                              </>
+                            ) : (
+                              <Chip size="sm" variant="flat" color="default">
+                                Pending
+                              </Chip>
+                            )
+                          ) : item.direction === 'sent' ? (
                             <Tooltip
-                              content="Resend file to others"
+                              content={`Resend file to ${item.peerName}`}
                               placement="top"
                             >
                               <Button
@@ -1215,15 +3727,23 @@ export default function Room({ roomId }: RoomProps) {
                                       item.file.metadata.name,
                                       { type: item.file.metadata.type },
                                     );
-                                    sendSingleFile(
-                                      resendFile,
-                                      true,
-                                      item.file.metadata.fileId,
-                                    );
+                                    sendQueueRef.current.enqueue([
+                                      {
+                                        file: resendFile,
+                                        options: {
+                                          isResend: true,
+                                          existingFileId:
+                                            item.file.metadata.fileId,
+                                          recipientIds: [item.peerId],
+                                          bundle: item.file.metadata.bundle,
+                                        },
+                                      },
+                                    ]);
                                   }
                                 }}
                                 isDisabled={
-                                  connectionsRef.current.size === 0 || isSending
+                                  !connectionsRef.current.has(item.peerId) ||
+                                  pendingResends.has(item.file.metadata.fileId)
                                 }
                               />
                             </Tooltip>
@@ -1243,7 +3763,14 @@ export default function Room({ roomId }: RoomProps) {
                                   startContent={<Eye className="h-4 w-4" />}
                                 />
                               </Tooltip>
-                              <Tooltip content="Download file" placement="top">
+                              <Tooltip
+                                content={
+                                  item.storage === 'disk'
+                                    ? 'Saved to your download folder'
+                                    : 'Download file'
+                                }
+                                placement="top"
+                              >
                                 <Button
                                   as="a"
                                   href={item.downloadUrl}
@@ -1346,6 +3873,34 @@ export default function Room({ roomId }: RoomProps) {
                     </div>
                   </div>
 
+                  <div className="bg-default-50 border-default-200 rounded-lg border p-4 shadow-sm">
+                    <p className="text-default-700 text-sm font-semibold">
+                      Short code
+                    </p>
+                    {shortCode ? (
+                      <p className="text-default-800 mt-2 font-mono text-lg font-semibold tracking-wide">
+                        {shortCode}
+                      </p>
+                    ) : (
+                      <Button
+                        size="sm"
+                        variant="flat"
+                        radius="md"
+                        className="mt-2 w-full"
+                        isLoading={isCreatingCode}
+                        onPress={requestShortCode}
+                        startContent={
+                          !isCreatingCode && <Hash className="h-4 w-4" />
+                        }
+                      >
+                        Create a code to read out or type in
+                      </Button>
+                    )}
+                    <p className="text-default-500 mt-2 text-xs">
+                      Works from the home page for the next hour
+                    </p>
+                  </div>
+
                   <div className="bg-default-50 border-default-200 flex flex-col items-center justify-center gap-3 rounded-lg border p-4 shadow-sm">
                     <div className="from-secondary-100 to-secondary-200 text-secondary-700 flex h-9 items-center gap-2 self-start rounded-full bg-linear-to-r px-3 text-xs font-semibold">
                       QR code
@@ -1380,6 +3935,41 @@ export default function Room({ roomId }: RoomProps) {
           )}
         </ModalContent>
       </Modal>
+      <Modal
+        isOpen={isDiagnosticsOpen}
+        onOpenChange={setIsDiagnosticsOpen}
+        placement="center"
+        size="3xl"
+        className="backdrop-blur"
+      >
+        <ModalContent>
+          {() => (
+            <>
+              <ModalHeader className="flex items-center gap-2">
+                <div className="from-primary-100 to-primary-200 flex h-10 w-10 shrink-0 items-center justify-center rounded-xl bg-linear-to-br">
+                  <Activity className="text-primary h-5 w-5" />
+                </div>
+                <p className="text-default-900 text-sm font-semibold">
+                  Connection details
+                </p>
+              </ModalHeader>
+              <ModalBody className="pb-6">
+                <ConnectionDiagnostics
+                  peers={users}
+                  getConnection={(peerId) => connectionsRef.current.get(peerId)}
+                  getInFlight={(peerId) => {
+                    let bytes = 0;
+                    sizersRef.current.forEach((sizer, key) => {
+                      if (key.endsWith(`:${peerId}`)) bytes += sizer.inFlight;
+                    });
+                    return bytes;
+                  }}
+                />
+              </ModalBody>
+            </>
+          )}
+        </ModalContent>
+      </Modal>
     </>
   );
 }
@@ -0,0 +1,62 @@
+'use client';
+
+import { Button } from '@heroui/react';
+import { Download, File as FileIcon, Network } from 'lucide-react';
+
+import type { FileMetadata } from '@/lib/room-protocol';
+import { formatBytes } from '@/lib/utils';
+
+type RoomFilesProps = {
+  files: { metadata: FileMetadata; holders: number }[];
+  // Whether part of the file is already here, so the download continues
+  isStarted: (fileId: string) => boolean;
+  onDownload: (fileId: string) => void;
+};
+
+/** Room files members can serve that we could fetch from all of them. */
+export default function RoomFiles({
+  files,
+  isStarted,
+  onDownload,
+}: RoomFilesProps) {
+  if (files.length === 0) return null;
+
+  return (
+    <div className="bg-secondary-50 border-secondary-200 space-y-3 rounded-xl border p-5">
+      <div className="flex items-center gap-2">
+        <div className="from-secondary-100 to-secondary-200 flex h-8 w-8 items-center justify-center rounded-lg bg-linear-to-br">
+          <Network className="text-secondary h-5 w-5" />
+        </div>
+        <h5 className="text-lg font-semibold">Available in Room</h5>
+      </div>
+      {files.map(({ metadata, holders }) => (
+        <div
+          key={metadata.fileId}
+          className="bg-content1 border-default-200 flex items-center gap-3 rounded-lg border p-3"
+        >
+          <FileIcon className="text-primary h-6 w-6 shrink-0" />
+          <div className="min-w-0 flex-1">
+            <p className="line-clamp-1 text-sm font-semibold">
+              {metadata.name}
+            </p>
+            <p className="text-default-500 line-clamp-1 text-xs">
+              {formatBytes(metadata.size)}
+              {` · from ${metadata.senderName}`}
+              {` · ${holders} holder${holders !== 1 ? 's' : ''}`}
+            </p>
+          </div>
+          <Button
+            size="sm"
+            color="secondary"
+            variant="flat"
+            radius="lg"
+            startContent={<Download className="h-4 w-4" />}
+            onPress={() => onDownload(metadata.fileId)}
+          >
+            {isStarted(metadata.fileId) ? 'Continue' : 'Download'}
+          </Button>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -1,33 +1,207 @@
 'use client';
 
-import React, { useEffect, useRef, useState } from 'react';
+import React, { useCallback, useEffect, useRef, useState } from 'react';
 
-import { Button, addToast } from '@heroui/react';
+import {
+  Button,
+  Card,
+  CardBody,
+  CardFooter,
+  CardHeader,
+  Chip,
+  Input,
+  Progress,
+  Switch,
+  addToast,
+} from '@heroui/react';
 import {
   Check,
   Copy,
   File as FileIcon,
+  Hash,
   Loader2,
+  Plus,
+  Share2,
   UploadCloud,
+  Users,
+  X,
 } from 'lucide-react';
 import type { DataConnection, Peer } from 'peerjs';
 
-import { formatBytes } from '@/lib/utils';
-
-const CHUNK_SIZE = 65536; // 64KB
+import NearbyRequests from '@/components/NearbyRequests';
+import {
+  type CompressionFormat,
+  chooseCompression,
+  compressChunk,
+} from '@/lib/compression';
+import {
+  createKeyChallenge,
+  deriveChunkKey,
+  encryptChunk,
+  generateSecret,
+  verifyKeyProof,
+  withSecret,
+} from '@/lib/encryption';
+import { hashFile, sha256 } from '@/lib/hash';
+import {
+  answerAccessRequest,
+  isAccessRequest,
+  keepAnnounced,
+} from '@/lib/nearby';
+import { createShortCode } from '@/lib/short-code';
+import { TransferMeter, type TransferRate } from '@/lib/telemetry';
+import { ChunkSizer, type LinkStats, SendScheduler } from '@/lib/transfer';
+import { formatBytes, formatDuration } from '@/lib/utils';
+
+type DownloadStatus =
+  | 'connecting'
+  | 'waiting'
+  | 'sending'
+  | 'completed'
+  | 'failed'
+  | 'left';
+
+// A file on offer; the ID is what receivers ask for it by
+type SharedFile = {
+  id: string;
+  file: File;
+};
+
+// One person who opened the share link, with their own copy of the stream
+type Downloader = {
+  peerId: string;
+  label: string;
+  status: DownloadStatus;
+  progress: number;
+  // Files this receiver has finished downloading
+  delivered: number;
+  fileName?: string;
+  rate?: TransferRate;
+  link?: LinkStats;
+};
+
+const STATUS_CHIPS: Record<
+  DownloadStatus,
+  { label: string; color: 'default' | 'primary' | 'success' | 'danger' }
+> = {
+  connecting: { label: 'Connecting', color: 'default' },
+  waiting: { label: 'Choosing files', color: 'default' },
+  sending: { label: 'Downloading', color: 'primary' },
+  completed: { label: 'Completed', color: 'success' },
+  failed: { label: 'Failed', color: 'danger' },
+  left: { label: 'Left', color: 'default' },
+};
+
+// Why a receiver was turned away; the receive page explains each one
+type LinkRejection = 'expired' | 'limit' | 'used' | 'invalid';
+
+type LinkPolicy = {
+  expiresAt: number | null;
+  maxDownloads: number | null;
+  oneTime: boolean;
+};
+
+// The receiver hangs up once it reads the rejection; this is the fallback
+const REJECT_CLOSE_DELAY = 2000;
+
+/**
+ * Checks a receiver against the link's policy. `used` counts receivers that
+ * got a file or are getting their first one; `isCounted` is true when this
+ * receiver is one of them, so only expiry can still stop it.
+ */
+const linkRejection = (
+  policy: LinkPolicy,
+  used: number,
+  isCounted: boolean,
+): LinkRejection | null => {
+  if (policy.expiresAt !== null && Date.now() >= policy.expiresAt) {
+    return 'expired';
+  }
+  if (isCounted) return null;
+  if (policy.oneTime && used >= 1) return 'used';
+  if (policy.maxDownloads !== null && used >= policy.maxDownloads) {
+    return 'limit';
+  }
+  return null;
+};
+
+const turnAway = (conn: DataConnection, reason: LinkRejection) => {
+  conn.send({ type: 'rejected', payload: { reason } });
+  setTimeout(() => conn.close(), REJECT_CLOSE_DELAY);
+};
+
+const manifestOf = (files: SharedFile[]) => ({
+  type: 'manifest',
+  payload: {
+    files: files.map(({ id, file }) => ({
+      fileId: id,
+      name: file.name,
+      size: file.size,
+      type: file.type,
+    })),
+  },
+});
 
 export default function Sender() {
   const [peerId, setPeerId] = useState<string | null>(null);
-  const [file, setFile] = useState<File | null>(null);
-  const [status, setStatus] = useState('Select a file to begin sharing.');
-  const [progress, setProgress] = useState(0);
+  const [secret, setSecret] = useState<string | null>(null);
+  const [files, setFiles] = useState<SharedFile[]>([]);
+  const [status, setStatus] = useState('Select files to begin sharing.');
   const [isCopied, setIsCopied] = useState(false);
-  const [isSending, setIsSending] = useState(false);
+  const [downloaders, setDownloaders] = useState<Downloader[]>([]);
+  const [expiryMinutes, setExpiryMinutes] = useState('');
+  const [expiresAt, setExpiresAt] = useState<number | null>(null);
+  const [maxDownloads, setMaxDownloads] = useState('');
+  const [oneTime, setOneTime] = useState(false);
+  const [isVisibleNearby, setIsVisibleNearby] = useState(false);
+  // Nearby devices waiting for us to let them have the link
+  const [accessRequests, setAccessRequests] = useState<DataConnection[]>([]);
+  const [shortCode, setShortCode] = useState<string | null>(null);
+  const [isCreatingCode, setIsCreatingCode] = useState(false);
 
   const peerRef = useRef<Peer | null>(null);
-  const connRef = useRef<DataConnection | null>(null);
+  // Every receiver that opened the link, keyed by their peer ID
+  const connectionsRef = useRef<Map<string, DataConnection>>(new Map());
+  const schedulerRef = useRef(new SendScheduler());
   const fileInputRef = useRef<HTMLInputElement>(null);
-  const fileRef = useRef<File | null>(null);
+  const filesRef = useRef<SharedFile[]>([]);
+  const fileIdRef = useRef(0);
+  // File IDs each receiver asked for and has not been sent yet
+  const requestsRef = useRef<Map<string, string[]>>(new Map());
+  // Receivers get their files one at a time
+  const busyRef = useRef<Set<string>>(new Set());
+  const chunkKeyRef = useRef<CryptoKey | null>(null);
+  const sizersRef = useRef<Map<string, ChunkSizer>>(new Map());
+  // Hashing reads the whole file, so it happens once however many download it
+  const hashesRef = useRef(new WeakMap<File, Promise<string>>());
+  const downloaderCountRef = useRef(0);
+  const isVisibleNearbyRef = useRef(false);
+  const policyRef = useRef<LinkPolicy>({
+    expiresAt: null,
+    maxDownloads: null,
+    oneTime: false,
+  });
+  // Nonces sent to receivers that have not yet shown they hold the key
+  const challengesRef = useRef<Map<string, ArrayBuffer>>(new Map());
+  const provenRef = useRef<Set<string>>(new Set());
+  // What the download limit counts: receivers that finished a file, plus
+  // those holding a slot while their first file is on its way
+  const deliveredToRef = useRef<Set<string>>(new Set());
+  const slotsRef = useRef<Set<string>>(new Set());
+
+  // Lets the connection handlers reach the latest serveNext
+  const serveNextRef = useRef<(conn: DataConnection) => Promise<void>>(
+    async () => {},
+  );
+
+  const updateDownloader = useCallback(
+    (peerId: string, patch: Partial<Downloader>) => {
+      setDownloaders((prev) =>
+        prev.map((d) => (d.peerId === peerId ? { ...d, ...patch } : d)),
+      );
+    },
+    [],
+  );
 
   useEffect(() => {
     const initPeer = async () => {
@@ -57,23 +231,137 @@ export default function Sender() {
         });
         peerRef.current = peer;
 
-        peer.on('open', (id) => {
+        peer.on('open', async (id) => {
+          // Fresh secret per link; it only ever travels in the URL fragment
+          const linkSecret = generateSecret();
+          chunkKeyRef.current = await deriveChunkKey(linkSecret, id);
+          setSecret(linkSecret);
           setPeerId(id);
         });
 
         peer.on('connection', (conn) => {
-          connRef.current = conn;
-          setStatus('Peer connected. Ready to send file.');
+          if (isAccessRequest(conn)) {
+            // Only asked while we are listed; the owner decides who gets the link
+            if (!isVisibleNearbyRef.current) {
+              answerAccessRequest(conn, null);
+              return;
+            }
+            setAccessRequests((prev) => [...prev, conn]);
+            conn.on('close', () =>
+              setAccessRequests((prev) => prev.filter((c) => c !== conn)),
+            );
+            return;
+          }
+
+          // Turn people away early once the link is spent; nothing is
+          // counted here, since a connection alone downloads nothing
+          const rejection = linkRejection(
+            policyRef.current,
+            deliveredToRef.current.size,
+            false,
+          );
+          if (rejection) {
+            conn.on('open', () => turnAway(conn, rejection));
+            return;
+          }
+
+          connectionsRef.current.set(conn.peer, conn);
+          downloaderCountRef.current += 1;
+          const downloader: Downloader = {
+            peerId: conn.peer,
+            label: `Receiver ${downloaderCountRef.current}`,
+            status: 'connecting',
+            progress: 0,
+            delivered: 0,
+          };
+          setDownloaders((prev) => [
+            ...prev.filter((d) => d.peerId !== conn.peer),
+            downloader,
+          ]);
 
           conn.on('open', () => {
-            if (fileRef.current) {
-              sendFile(fileRef.current, conn);
+            // Nothing is offered until the receiver shows it has the key
+            const challenge = createKeyChallenge();
+            challengesRef.current.set(conn.peer, challenge);
+            conn.send({ type: 'challenge', payload: challenge });
+          });
+
+          conn.on('data', async (data) => {
+            const message = data as
+              | { type: 'proof'; payload: ArrayBuffer }
+              | { type: 'ack'; payload: { index: number } }
+              | { type: 'request'; payload: { fileIds: string[] } };
+
+            if (message.type === 'proof') {
+              const challenge = challengesRef.current.get(conn.peer);
+              challengesRef.current.delete(conn.peer);
+              const valid =
+                !!challenge &&
+                !!chunkKeyRef.current &&
+                (await verifyKeyProof(
+                  chunkKeyRef.current,
+                  challenge,
+                  message.payload,
+                ));
+              if (!valid) {
+                turnAway(conn, 'invalid');
+                updateDownloader(conn.peer, { status: 'failed' });
+                return;
+              }
+              provenRef.current.add(conn.peer);
+              // Receivers pick what they want from the manifest
+              conn.send(manifestOf(filesRef.current));
+              updateDownloader(conn.peer, { status: 'waiting' });
+              return;
+            }
+            if (!provenRef.current.has(conn.peer)) return;
+
+            if (message.type === 'ack') {
+              sizersRef.current.get(conn.peer)?.acked(message.payload.index);
+            } else if (message.type === 'request') {
+              const isCounted =
+                deliveredToRef.current.has(conn.peer) ||
+                slotsRef.current.has(conn.peer);
+              const rejection = linkRejection(
+                policyRef.current,
+                deliveredToRef.current.size + slotsRef.current.size,
+                isCounted,
+              );
+              if (rejection) {
+                turnAway(conn, rejection);
+                return;
+              }
+              if (!isCounted) slotsRef.current.add(conn.peer);
+
+              const offered = new Set(filesRef.current.map(({ id }) => id));
+              const fileIds = message.payload.fileIds.filter((id) =>
+                offered.has(id),
+              );
+              requestsRef.current.set(conn.peer, [
+                ...(requestsRef.current.get(conn.peer) ?? []),
+                ...fileIds,
+              ]);
+              void serveNextRef.current(conn);
             }
           });
 
           conn.on('close', () => {
-            setStatus('Peer disconnected. Share link again.');
-            connRef.current = null;
+            connectionsRef.current.delete(conn.peer);
+            sizersRef.current.delete(conn.peer);
+            requestsRef.current.delete(conn.peer);
+            busyRef.current.delete(conn.peer);
+            challengesRef.current.delete(conn.peer);
+            provenRef.current.delete(conn.peer);
+            // A receiver that leaves empty-handed gives its slot back
+            slotsRef.current.delete(conn.peer);
+            schedulerRef.current.drop(conn);
+            setDownloaders((prev) =>
+              prev.map((d) =>
+                d.peerId === conn.peer && d.status !== 'completed'
+                  ? { ...d, status: 'left', rate: undefined }
+                  : d,
+              ),
+            );
           });
         });
 
@@ -94,92 +382,249 @@ export default function Sender() {
 
     initPeer();
 
+    const connections = connectionsRef.current;
     return () => {
-      connRef.current?.close();
+      connections.forEach((conn) => conn.close());
       peerRef.current?.destroy();
     };
-  }, []);
+  }, [updateDownloader]);
+
+  const nearbyName =
+    files.length === 1 ? files[0].file.name : `${files.length} files`;
+
+  // Opted in: devices on our network see this share on their home page
+  useEffect(() => {
+    if (!isVisibleNearby || !peerId || !secret || files.length === 0) return;
+    return keepAnnounced({ peerId, name: nearbyName, kind: 'peer' });
+  }, [isVisibleNearby, peerId, secret, files.length, nearbyName]);
+
+  const answerNearby = (conn: DataConnection, allow: boolean) => {
+    answerAccessRequest(
+      conn,
+      allow && peerId && secret
+        ? withSecret(`/receive/${peerId}`, secret)
+        : null,
+    );
+    setAccessRequests((prev) => prev.filter((c) => c !== conn));
+  };
 
-  const sendFile = (fileToSend: File, conn: DataConnection) => {
-    if (!conn || !conn.open) {
-      setStatus('Connection is not open. Cannot send file.');
-      return;
+  /**
+   * Streams a file to one receiver; every receiver gets its own cursor.
+   * Resolves to whether the whole file went out.
+   */
+  const sendFile = async (
+    { id, file: fileToSend }: SharedFile,
+    conn: DataConnection,
+  ): Promise<boolean> => {
+    if (!conn.open) {
+      updateDownloader(conn.peer, { status: 'failed' });
+      return false;
     }
 
-    setIsSending(true);
-    setStatus('Sending file...');
-    setProgress(0);
+    updateDownloader(conn.peer, {
+      status: 'sending',
+      progress: 0,
+      fileName: fileToSend.name,
+      rate: undefined,
+      link: undefined,
+    });
+
+    let fileHash: string;
+    try {
+      let hash = hashesRef.current.get(fileToSend);
+      if (!hash) {
+        hash = hashFile(fileToSend);
+        hashesRef.current.set(fileToSend, hash);
+      }
+      fileHash = await hash;
+    } catch (error) {
+      console.error('Hashing error:', error);
+      setStatus('Error reading file.');
+      updateDownloader(conn.peer, { status: 'failed' });
+      return false;
+    }
+
+    // The receiver lists the formats it can decode when it connects
+    const compression = chooseCompression(fileToSend, [
+      (conn.metadata as { compression?: CompressionFormat[] } | undefined)
+        ?.compression,
+    ]);
 
     conn.send({
       type: 'metadata',
       payload: {
+        fileId: id,
         name: fileToSend.name,
         size: fileToSend.size,
         type: fileToSend.type,
+        sha256: fileHash,
       },
+      compression,
     });
 
-    const fileReader = new FileReader();
     let offset = 0;
+    let index = 0;
+    const sizer = new ChunkSizer(conn);
+    sizersRef.current.set(conn.peer, sizer);
+    const meter = new TransferMeter(fileToSend.size);
 
-    fileReader.onload = (e) => {
-      if (e.target?.result) {
-        const chunk = e.target.result as ArrayBuffer;
-        try {
-          if (connRef.current?.open) {
-            connRef.current.send({ type: 'chunk', payload: chunk });
-            offset += chunk.byteLength;
-            setProgress((offset / fileToSend.size) * 100);
-
-            if (offset < fileToSend.size) {
-              readSlice(offset);
-            } else {
-              setStatus('File sent successfully!');
-              setIsSending(false);
-              connRef.current.send({ type: 'end' });
-            }
-          }
-        } catch (e) {
-          console.error('Send error:', e);
-          setStatus(
-            'An error occurred during sending. Peer may have disconnected.',
-          );
-          setIsSending(false);
-        }
-      }
-    };
+    try {
+      // The scheduler only asks for the next chunk while the channel has room
+      await schedulerRef.current.enqueue(conn, async () => {
+        // Empty files still send one empty chunk
+        if (offset >= fileToSend.size && index > 0) return null;
+        if (!chunkKeyRef.current) throw new Error('Missing encryption key');
+        void sizer.probe();
+        const chunk = await fileToSend
+          .slice(offset, offset + sizer.size)
+          .arrayBuffer();
+        const packed = compression
+          ? await compressChunk(compression, chunk)
+          : null;
+        const payload = await encryptChunk(
+          chunkKeyRef.current,
+          packed ?? chunk,
+        );
+        const remaining = fileToSend.size - offset - chunk.byteLength;
+        const message = {
+          type: 'chunk',
+          payload,
+          index,
+          // Only exact on the last chunk, which is the one the receiver checks
+          totalChunks: index + 1 + Math.ceil(remaining / sizer.size),
+          hash: sha256(chunk),
+          ...(packed && { compression }),
+        };
+        sizer.sent(index, payload.byteLength);
+        index += 1;
+        offset += chunk.byteLength;
+        meter.record(chunk.byteLength);
+        updateDownloader(conn.peer, {
+          progress: fileToSend.size ? (offset / fileToSend.size) * 100 : 100,
+          rate: meter.rate,
+          link: sizer.stats,
+        });
+        return message;
+      });
 
-    fileReader.onerror = (error) => {
-      console.error('FileReader error:', error);
-      setStatus('Error reading file.');
-      setIsSending(false);
-    };
+      conn.send({ type: 'end', payload: { fileId: id } });
+      setDownloaders((prev) =>
+        prev.map((d) =>
+          d.peerId === conn.peer
+            ? {
+                ...d,
+                status: 'completed',
+                progress: 100,
+                delivered: d.delivered + 1,
+                rate: undefined,
+              }
+            : d,
+        ),
+      );
+      return true;
+    } catch (e) {
+      console.error('Send error:', e);
+      updateDownloader(conn.peer, {
+        status: conn.open ? 'failed' : 'left',
+        rate: undefined,
+      });
+      return false;
+    } finally {
+      sizersRef.current.delete(conn.peer);
+    }
+  };
 
-    const readSlice = (o: number) => {
-      const slice = fileToSend.slice(o, o + CHUNK_SIZE);
-      fileReader.readAsArrayBuffer(slice);
-    };
+  /** Works through a receiver's requests, one file at a time. */
+  const serveNext = async (conn: DataConnection) => {
+    if (busyRef.current.has(conn.peer)) return;
+    busyRef.current.add(conn.peer);
+
+    try {
+      let fileId: string | undefined;
+      while (
+        conn.open &&
+        (fileId = requestsRef.current.get(conn.peer)?.shift())
+      ) {
+        // Files removed from the share since they were requested are skipped
+        const shared = filesRef.current.find(({ id }) => id === fileId);
+        if (!shared) continue;
+
+        // A queue requested before the link expired stops when it does
+        if (linkRejection(policyRef.current, 0, true) === 'expired') {
+          requestsRef.current.delete(conn.peer);
+          turnAway(conn, 'expired');
+          break;
+        }
+        if (await sendFile(shared, conn)) {
+          slotsRef.current.delete(conn.peer);
+          deliveredToRef.current.add(conn.peer);
+        }
+      }
+    } finally {
+      busyRef.current.delete(conn.peer);
+    }
+  };
 
-    readSlice(0);
+  useEffect(() => {
+    serveNextRef.current = serveNext;
+  });
+
+  const updateFiles = (next: SharedFile[]) => {
+    filesRef.current = next;
+    setFiles(next);
+    const manifest = manifestOf(next);
+    connectionsRef.current.forEach((conn) => {
+      if (conn.open) conn.send(manifest);
+    });
+    setStatus(
+      next.length === 0
+        ? 'Select files to begin sharing.'
+        : connectionsRef.current.size > 0
+          ? `Sharing ${next.length} file${next.length === 1 ? '' : 's'}`
+          : 'Files selected. Share the link to start the transfer.',
+    );
   };
 
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const selectedFile = e.target.files?.[0];
-    if (selectedFile) {
-      setFile(selectedFile);
-      fileRef.current = selectedFile;
-      setProgress(0);
-      setIsSending(false);
-
-      if (connRef.current && connRef.current.open) {
-        sendFile(selectedFile, connRef.current);
-      } else {
-        setStatus('File selected. Share the link to start the transfer.');
-      }
+    const selectedFiles = Array.from(e.target.files ?? []);
+    if (selectedFiles.length > 0) {
+      updateFiles([
+        ...filesRef.current,
+        ...selectedFiles.map((file) => {
+          fileIdRef.current += 1;
+          return { id: String(fileIdRef.current), file };
+        }),
+      ]);
     }
+    // Lets the same file be picked again after it was removed
+    e.target.value = '';
   };
 
-  const shareUrl = peerId ? `${window.location.origin}/receive/${peerId}` : '';
+  const removeFile = (id: string) => {
+    updateFiles(filesRef.current.filter((shared) => shared.id !== id));
+  };
+
+  const shareUrl = peerId
+    ? withSecret(`${window.location.origin}/receive/${peerId}`, secret)
+    : '';
+
+  const requestShortCode = async () => {
+    if (!peerId || !secret) return;
+    setIsCreatingCode(true);
+    try {
+      setShortCode(
+        await createShortCode('peer', peerId, withSecret('', secret)),
+      );
+    } catch (error) {
+      addToast({
+        title: 'Could not create a code',
+        description: (error as Error).message,
+        color: 'danger',
+      });
+    } finally {
+      setIsCreatingCode(false);
+    }
+  };
 
   const copyToClipboard = () => {
     if (!shareUrl) return;
@@ -247,26 +692,13 @@ export default function Sender() {
   };
 
   const handleReset = () => {
-    setFile(null);
-    fileRef.current = null;
-    setProgress(0);
-    setIsSending(false);
-    setStatus('Select a file to begin sharing.');
-    if (fileInputRef.current) {
-      fileInputRef.current.value = '';
-    }
+    updateFiles([]);
   };
 
   const renderContent = () => {
-    if (!file) {
+    if (files.length === 0) {
       return (
         <div className="text-center">
-          <input
-            type="file"
-            ref={fileInputRef}
-            onChange={handleFileChange}
-            className="hidden"
-          />
           <Button
             onPress={() => fileInputRef.current?.click()}
             size="lg"
@@ -274,7 +706,7 @@ export default function Sender() {
           >
             <div className="text-muted-foreground flex flex-col items-center gap-2">
               <UploadCloud className="h-10 w-10" />
-              <span className="font-semibold">Click to select a file</span>
+              <span className="font-semibold">Click to select files</span>
             </div>
           </Button>
         </div>
@@ -283,14 +715,43 @@ export default function Sender() {
 
     return (
       <div className="space-y-4">
-        <div className="bg-muted/50 flex items-center gap-4 rounded-lg border p-4">
-          <FileIcon className="text-primary h-8 w-8" />
-          <div className="">
-            <p className="truncate font-semibold">{file.name}</p>
-            <p className="text-muted-foreground text-sm">
-              {formatBytes(file.size)}
-            </p>
-          </div>
+        <div className="space-y-2">
+          {files.map(({ id, file }) => (
+            <div
+              key={id}
+              className="bg-muted/50 flex items-center gap-4 rounded-lg border p-3"
+            >
+              <FileIcon className="text-primary h-6 w-6 shrink-0" />
+              <div className="min-w-0 flex-1">
+                <p className="truncate text-sm font-semibold">{file.name}</p>
+                <p className="text-muted-foreground text-xs">
+                  {formatBytes(file.size)}
+                </p>
+              </div>
+              <Button
+                isIconOnly
+                size="sm"
+                variant="light"
+                aria-label={`Remove ${file.name}`}
+                onPress={() => removeFile(id)}
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+        <div className="flex justify-between gap-2">
+          <Button
+            size="sm"
+            variant="flat"
+            onPress={() => fileInputRef.current?.click()}
+            startContent={<Plus className="h-4 w-4 shrink-0" />}
+          >
+            Add files
+          </Button>
+          <Button size="sm" variant="light" onPress={handleReset}>
+            Clear all
+          </Button>
         </div>
 
         {!peerId ? (
@@ -313,9 +774,219 @@ export default function Sender() {
                 )}
               </Button>
             </div>
+            {shortCode ? (
+              <div className="bg-default-50 border-default-100 rounded-xl border px-4 py-3 text-center">
+                <p className="text-default-500 text-xs">
+                  Or enter this code on the home page
+                </p>
+                <p className="font-mono text-lg font-semibold tracking-wide">
+                  {shortCode}
+                </p>
+              </div>
+            ) : (
+              <Button
+                size="sm"
+                variant="light"
+                className="w-full"
+                isLoading={isCreatingCode}
+                onPress={requestShortCode}
+                startContent={
+                  !isCreatingCode && <Hash className="h-4 w-4 shrink-0" />
+                }
+              >
+                Get a short code instead
+              </Button>
+            )}
+            {renderLinkSettings()}
           </div>
         )}
       </div>
     );
   };
+
+  const renderLinkSettings = () => {
+    const max = Math.floor(Number(maxDownloads));
+    const limit = oneTime ? 1 : max > 0 ? max : null;
+    const notes = [
+      expiresAt !== null &&
+        `Expires at ${new Date(expiresAt).toLocaleTimeString([], {
+          hour: '2-digit',
+          minute: '2-digit',
+        })}`,
+      limit !== null &&
+        `${downloaders.filter((d) => d.delivered > 0).length} of ${limit} downloads used`,
+    ].filter(Boolean);
+
+    return (
+      <div className="space-y-2 pt-2">
+        <div className="bg-default-50 border-default-100 flex items-center justify-between gap-3 rounded-xl border px-4 py-3">
+          <span className="text-default-600 text-sm">Link expires after</span>
+          <Input
+            size="sm"
+            type="number"
+            min={0}
+            aria-label="Link expiry in minutes"
+            placeholder="Never"
+            value={expiryMinutes}
+            onValueChange={(value) => {
+              setExpiryMinutes(value);
+              const minutes = Math.max(0, Number(value) || 0);
+              // The clock starts when the expiry is set, not when the link was made
+              const at = minutes > 0 ? Date.now() + minutes * 60 * 1000 : null;
+              policyRef.current.expiresAt = at;
+              setExpiresAt(at);
+            }}
+            endContent={<span className="text-default-400 text-xs">min</span>}
+            className="max-w-32"
+          />
+        </div>
+        <div className="bg-default-50 border-default-100 flex items-center justify-between gap-3 rounded-xl border px-4 py-3">
+          <span className="text-default-600 text-sm">Maximum downloads</span>
+          <Input
+            size="sm"
+            type="number"
+            min={1}
+            aria-label="Maximum number of downloads"
+            placeholder="Unlimited"
+            isDisabled={oneTime}
+            value={maxDownloads}
+            onValueChange={(value) => {
+              setMaxDownloads(value);
+              const max = Math.floor(Number(value));
+              policyRef.current.maxDownloads = max > 0 ? max : null;
+            }}
+            className="max-w-32"
+          />
+        </div>
+        <div className="bg-default-50 border-default-100 flex items-center justify-between gap-3 rounded-xl border px-4 py-3">
+          <span className="text-default-600 text-sm">
+            One-time link, only the first receiver gets in
+          </span>
+          <Switch
+            size="sm"
+            aria-label="One-time link"
+            isSelected={oneTime}
+            onValueChange={(value) => {
+              setOneTime(value);
+              policyRef.current.oneTime = value;
+            }}
+          />
+        </div>
+        <div className="bg-default-50 border-default-100 flex items-center justify-between gap-3 rounded-xl border px-4 py-3">
+          <span className="text-default-600 text-sm">
+            Show to devices on the same network
+          </span>
+          <Switch
+            size="sm"
+            aria-label="Show to nearby devices"
+            isSelected={isVisibleNearby}
+            onValueChange={(value) => {
+              setIsVisibleNearby(value);
+              isVisibleNearbyRef.current = value;
+            }}
+          />
+        </div>
+        <NearbyRequests
+          requests={accessRequests}
+          subject="these files"
+          onAnswer={answerNearby}
+        />
+        {notes.length > 0 && (
+          <p className="text-default-500 text-center text-xs">
+            {notes.join(' · ')}
+          </p>
+        )}
+      </div>
+    );
+  };
+
+  const rateLabel = ({ rate, link }: Downloader) => {
+    if (!rate?.current) return undefined;
+    return [
+      `${formatBytes(rate.current)}/s`,
+      rate.eta !== null && `${formatDuration(rate.eta)} left`,
+      link && `${formatBytes(link.chunkSize)} chunks`,
+    ]
+      .filter(Boolean)
+      .join(' · ');
+  };
+
+  const activeCount = downloaders.filter((d) => d.status === 'sending').length;
+
+  return (
+    <Card className="w-full max-w-md shadow-lg">
+      <CardHeader className="flex-col text-center">
+        <div className="mb-2 flex items-center justify-center gap-2">
+          <Share2 className="text-primary h-8 w-8" />
+          <h4 className="font-headline text-3xl tracking-tight">PeerShare</h4>
+        </div>
+        <p className="text-center">{status}</p>
+      </CardHeader>
+      <CardBody className="flex flex-col justify-center">
+        <input
+          type="file"
+          multiple
+          ref={fileInputRef}
+          onChange={handleFileChange}
+          className="hidden"
+        />
+        {renderContent()}
+      </CardBody>
+      {downloaders.length > 0 && (
+        <CardFooter className="flex flex-col gap-3">
+          <div className="flex w-full items-center justify-between">
+            <div className="flex items-center gap-2">
+              <Users className="text-primary h-4 w-4" />
+              <p className="text-sm font-semibold">Downloaders</p>
+            </div>
+            <Chip size="sm" variant="flat" color="primary">
+              {activeCount} downloading
+            </Chip>
+          </div>
+          {downloaders.map((downloader) => {
+            const chip = STATUS_CHIPS[downloader.status];
+            const detail = [
+              downloader.status === 'sending' && downloader.fileName,
+              downloader.delivered > 0 && `${downloader.delivered} delivered`,
+            ]
+              .filter(Boolean)
+              .join(' · ');
+            return (
+              <div
+                key={downloader.peerId}
+                className="border-default-200 w-full space-y-2 rounded-lg border p-3"
+              >
+                <div className="flex items-center justify-between gap-2">
+                  <div className="min-w-0">
+                    <p className="truncate text-sm font-medium">
+                      {downloader.label}
+                    </p>
+                    {detail && (
+                      <p className="text-default-500 truncate text-xs">
+                        {detail}
+                      </p>
+                    )}
+                  </div>
+                  <Chip size="sm" variant="flat" color={chip.color}>
+                    {chip.label}
+                  </Chip>
+                </div>
+                {downloader.status === 'sending' && (
+                  <Progress
+                    isStriped
+                    size="sm"
+                    showValueLabel
+                    label={rateLabel(downloader)}
+                    classNames={{ label: 'text-tiny text-default-500' }}
+                    value={downloader.progress}
+                    aria-label={`Progress for ${downloader.label}`}
+                  />
+                )}
+              </div>
+            );
+          })}
+        </CardFooter>
+      )}
+    </Card>
+  );
 }
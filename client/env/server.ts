@@ -4,16 +4,32 @@ import { z } from 'zod';
 
 expand(config());
 
-const envSchema = z.object({
-  NODE_ENV: z.enum(['development', 'production']),
-  NEXT_PUBLIC_PEER_HOST: z.string(),
-  NEXT_PUBLIC_PEER_PORT: z.string(),
-  NEXT_PUBLIC_PEER_PATH: z.string(),
-  NEXT_PUBLIC_PEER_SECURE: z.stringbool(),
-  NEXT_PUBLIC_STUN_URL: z.string(),
-  NEXT_PUBLIC_STUN_USERNAME: z.string(),
-  NEXT_PUBLIC_STUN_CREDENTIAL: z.string(),
-});
+const envSchema = z
+  .object({
+    NODE_ENV: z.enum(['development', 'production']),
+    NEXT_PUBLIC_PEER_HOST: z.string(),
+    NEXT_PUBLIC_PEER_PORT: z.string(),
+    NEXT_PUBLIC_PEER_PATH: z.string(),
+    NEXT_PUBLIC_PEER_SECURE: z.stringbool(),
+    NEXT_PUBLIC_STUN_URL: z.string(),
+    NEXT_PUBLIC_STUN_USERNAME: z.string(),
+    NEXT_PUBLIC_STUN_CREDENTIAL: z.string(),
+    ROOM_TOKEN_SECRET: z.string().min(32).optional(),
+    ROOM_STORE: z.enum(['memory', 'file', 'redis']).default('memory'),
+    ROOM_STORE_FILE: z.string().default('.data/rooms.json'),
+    REDIS_URL: z.url({ protocol: /^rediss?$/ }).optional(),
+    PEER_TTL_SECONDS: z.coerce.number().int().min(5).default(30),
+    TRUSTED_PROXY_HOPS: z.coerce.number().int().min(0).default(0),
+  })
+  .refine((env) => env.ROOM_STORE !== 'redis' || env.REDIS_URL, {
+    message: 'REDIS_URL is required when ROOM_STORE is redis',
+    path: ['REDIS_URL'],
+  })
+  // Tokens must outlive a restart and work on every instance sharing the store
+  .refine((env) => env.ROOM_STORE === 'memory' || env.ROOM_TOKEN_SECRET, {
+    message: 'ROOM_TOKEN_SECRET is required unless ROOM_STORE is memory',
+    path: ['ROOM_TOKEN_SECRET'],
+  });
 
 const parsed = envSchema.safeParse(process.env);
 if (!parsed.success) {
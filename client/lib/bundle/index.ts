@@ -0,0 +1,224 @@
+/** A picked or dropped file with its path relative to what the user chose. */
+export type BundleEntry = {
+  file: File;
+  // "photos/2024/beach.jpg" for folder contents, just the name otherwise
+  path: string;
+};
+
+/** Files picked together, split into one group per top-level folder. */
+export type SelectionGroup = {
+  // Null for a loose file, which always forms a group of its own
+  folder: string | null;
+  entries: BundleEntry[];
+};
+
+const ZIP_READ_SIZE = 4 * 1024 * 1024; // 4MB
+// Plain zip (no zip64) stores sizes and offsets in 32 bits
+const ZIP_MAX_SIZE = 0xffffffff;
+const ZIP_MAX_ENTRIES = 0xffff;
+
+/** Reads an <input type="file">, keeping folder paths when webkitdirectory is set. */
+export function entriesFromFileList(files: FileList | File[]): BundleEntry[] {
+  return Array.from(files).map((file) => ({
+    file,
+    path: file.webkitRelativePath || file.name,
+  }));
+}
+
+/**
+ * Expands a drop into files, walking any dropped folders. The entries have to
+ * be taken from the DataTransfer before the first await, as the browser
+ * empties it once the drop handler returns.
+ */
+export async function entriesFromDataTransfer(
+  dataTransfer: DataTransfer,
+): Promise<BundleEntry[]> {
+  const roots = Array.from(dataTransfer.items)
+    .filter((item) => item.kind === 'file')
+    .map((item) => item.webkitGetAsEntry());
+
+  if (roots.some((entry) => entry === null)) {
+    return entriesFromFileList(dataTransfer.files);
+  }
+
+  const entries: BundleEntry[] = [];
+  for (const root of roots) {
+    await walkEntry(root!, '', entries);
+  }
+  return entries;
+}
+
+async function walkEntry(
+  entry: FileSystemEntry,
+  parent: string,
+  entries: BundleEntry[],
+) {
+  const path = parent ? `${parent}/${entry.name}` : entry.name;
+
+  if (entry.isFile) {
+    const file = await new Promise<File>((resolve, reject) =>
+      (entry as FileSystemFileEntry).file(resolve, reject),
+    );
+    entries.push({ file, path });
+    return;
+  }
+
+  const reader = (entry as FileSystemDirectoryEntry).createReader();
+  // readEntries hands out directories in batches until it returns none
+  for (;;) {
+    const batch = await new Promise<FileSystemEntry[]>((resolve, reject) =>
+      reader.readEntries(resolve, reject),
+    );
+    if (batch.length === 0) break;
+    for (const child of batch) {
+      await walkEntry(child, path, entries);
+    }
+  }
+}
+
+export function groupByFolder(entries: BundleEntry[]): SelectionGroup[] {
+  const groups: SelectionGroup[] = [];
+  const folders = new Map<string, SelectionGroup>();
+
+  entries.forEach((entry) => {
+    const slash = entry.path.indexOf('/');
+    if (slash < 0) {
+      groups.push({ folder: null, entries: [entry] });
+      return;
+    }
+
+    const folder = entry.path.slice(0, slash);
+    let group = folders.get(folder);
+    if (!group) {
+      group = { folder, entries: [] };
+      folders.set(folder, group);
+      groups.push(group);
+    }
+    group.entries.push(entry);
+  });
+
+  return groups;
+}
+
+let crcTable: Uint32Array | null = null;
+
+function crc32Table() {
+  if (crcTable) return crcTable;
+  crcTable = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    crcTable[n] = c >>> 0;
+  }
+  return crcTable;
+}
+
+async function crc32(blob: Blob) {
+  const table = crc32Table();
+  let crc = 0xffffffff;
+  for (let offset = 0; offset < blob.size; offset += ZIP_READ_SIZE) {
+    const bytes = new Uint8Array(
+      await blob.slice(offset, offset + ZIP_READ_SIZE).arrayBuffer(),
+    );
+    for (let i = 0; i < bytes.length; i++) {
+      crc = table[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+    }
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function dosDateTime(date: Date) {
+  return {
+    time:
+      (date.getHours() << 11) |
+      (date.getMinutes() << 5) |
+      Math.floor(date.getSeconds() / 2),
+    date:
+      ((Math.max(date.getFullYear(), 1980) - 1980) << 9) |
+      ((date.getMonth() + 1) << 5) |
+      date.getDate(),
+  };
+}
+
+// Paths come from the remote peer, so nothing may climb out of the archive
+// root: no "..", no leading slash and no drive letters
+const zipEntryName = (path: string) =>
+  path
+    .split(/[\\/]/)
+    .map((segment) => segment.replace(/[:*?"<>|\u0000-\u001f]/g, '_').trim())
+    .filter((segment) => segment && segment !== '.' && segment !== '..')
+    .join('/') || 'download';
+
+/**
+ * Packs files into an uncompressed zip. File contents are referenced rather
+ * than copied, so only the headers are built in memory.
+ */
+export async function createZip(
+  files: { path: string; blob: Blob }[],
+): Promise<Blob> {
+  const totalSize = files.reduce((sum, { blob }) => sum + blob.size, 0);
+  if (files.length > ZIP_MAX_ENTRIES || totalSize >= ZIP_MAX_SIZE) {
+    throw new Error('Too large for a zip archive; save it as a folder instead');
+  }
+
+  const encoder = new TextEncoder();
+  const { time, date } = dosDateTime(new Date());
+  const parts: BlobPart[] = [];
+  const directory: ArrayBuffer[] = [];
+  let offset = 0;
+
+  for (const { path, blob } of files) {
+    const name = encoder.encode(zipEntryName(path));
+    const crc = await crc32(blob);
+
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, 0x04034b50, true);
+    local.setUint16(4, 20, true); // version needed
+    local.setUint16(6, 0x0800, true); // names are UTF-8
+    local.setUint16(8, 0, true); // stored
+    local.setUint16(10, time, true);
+    local.setUint16(12, date, true);
+    local.setUint32(14, crc, true);
+    local.setUint32(18, blob.size, true);
+    local.setUint32(22, blob.size, true);
+    local.setUint16(26, name.length, true);
+    local.setUint16(28, 0, true);
+    parts.push(local.buffer, name, blob);
+
+    const central = new DataView(new ArrayBuffer(46 + name.length));
+    central.setUint32(0, 0x02014b50, true);
+    central.setUint16(4, 20, true); // version made by
+    central.setUint16(6, 20, true);
+    central.setUint16(8, 0x0800, true);
+    central.setUint16(10, 0, true);
+    central.setUint16(12, time, true);
+    central.setUint16(14, date, true);
+    central.setUint32(16, crc, true);
+    central.setUint32(20, blob.size, true);
+    central.setUint32(24, blob.size, true);
+    central.setUint16(28, name.length, true);
+    central.setUint32(42, offset, true);
+    new Uint8Array(central.buffer).set(name, 46);
+    directory.push(central.buffer);
+
+    offset += 30 + name.length + blob.size;
+  }
+
+  const directorySize = directory.reduce((sum, d) => sum + d.byteLength, 0);
+  if (offset + directorySize >= ZIP_MAX_SIZE) {
+    throw new Error('Too large for a zip archive; save it as a folder instead');
+  }
+
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, 0x06054b50, true);
+  end.setUint16(8, files.length, true);
+  end.setUint16(10, files.length, true);
+  end.setUint32(12, directorySize, true);
+  end.setUint32(16, offset, true);
+
+  return new Blob([...parts, ...directory, end.buffer], {
+    type: 'application/zip',
+  });
+}
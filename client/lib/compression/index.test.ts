@@ -0,0 +1,24 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  DecompressionLimitError,
+  compressChunk,
+  decompressChunk,
+} from './index';
+
+describe('decompressChunk', () => {
+  const data = new Uint8Array(64 * 1024).fill(7).buffer;
+
+  it('restores a chunk within its limit', async () => {
+    const packed = await compressChunk('deflate', data);
+    const restored = await decompressChunk('deflate', packed!, data.byteLength);
+    expect(new Uint8Array(restored)).toEqual(new Uint8Array(data));
+  });
+
+  it('stops a chunk that inflates past its limit', async () => {
+    const packed = await compressChunk('deflate', data);
+    await expect(
+      decompressChunk('deflate', packed!, data.byteLength - 1),
+    ).rejects.toBeInstanceOf(DecompressionLimitError);
+  });
+});
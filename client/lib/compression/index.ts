@@ -0,0 +1,114 @@
+export type CompressionFormat = 'gzip' | 'deflate';
+
+// In order of preference; deflate carries the smaller header
+const FORMATS: CompressionFormat[] = ['deflate', 'gzip'];
+
+// Formats that are compressed already and would only cost CPU
+const COMPRESSED_TYPES = [
+  /^image\/(?!svg|bmp|x-icon)/,
+  /^video\//,
+  /^audio\/(?!wav|x-wav|aiff)/,
+  /^font\/woff2?$/,
+  /zip|gzip|compressed|bzip|x-xz|zstd|x-lzma|x-brotli|java-archive/,
+  /^application\/(pdf|epub\+zip|vnd\.openxmlformats|vnd\.oasis|vnd\.android)/,
+];
+const COMPRESSED_EXTENSIONS =
+  /\.(zip|gz|tgz|bz2|xz|zst|7z|rar|jpe?g|png|gif|webp|avif|heic|mp[34]|m4[av]|mkv|mov|webm|ogg|opus|flac|aac|pdf|docx|xlsx|pptx|apk|jar|woff2?)$/i;
+
+/** Formats this browser can both compress and decompress. */
+export function supportedCompression(): CompressionFormat[] {
+  if (
+    typeof CompressionStream === 'undefined' ||
+    typeof DecompressionStream === 'undefined'
+  ) {
+    return [];
+  }
+  return FORMATS;
+}
+
+export function isCompressible(file: { name: string; type: string }) {
+  if (file.type && COMPRESSED_TYPES.some((re) => re.test(file.type))) {
+    return false;
+  }
+  return !COMPRESSED_EXTENSIONS.test(file.name);
+}
+
+/**
+ * Picks the format for one transfer: the first we support that every
+ * receiver listed, or none when the file would not shrink.
+ */
+export function chooseCompression(
+  file: { name: string; type: string },
+  receivers: (CompressionFormat[] | undefined)[],
+): CompressionFormat | undefined {
+  if (receivers.length === 0 || !isCompressible(file)) return undefined;
+  return supportedCompression().find((format) =>
+    receivers.every((formats) => formats?.includes(format)),
+  );
+}
+
+const transform = (data: ArrayBuffer, stream: TransformStream) =>
+  new Response(new Blob([data]).stream().pipeThrough(stream)).arrayBuffer();
+
+/**
+ * Compresses one chunk on its own, so chunks stay independently decodable
+ * for resumes, relays and piece-wise downloads. Returns null when the result
+ * would not be smaller; the chunk then goes out as is.
+ */
+export async function compressChunk(
+  format: CompressionFormat,
+  data: ArrayBuffer,
+): Promise<ArrayBuffer | null> {
+  const packed = await transform(data, new CompressionStream(format));
+  return packed.byteLength < data.byteLength ? packed : null;
+}
+
+/** Thrown when a chunk inflates past what its transfer can hold. */
+export class DecompressionLimitError extends Error {
+  constructor(limit: number) {
+    super(`Chunk decompresses to more than ${limit} bytes`);
+    this.name = 'DecompressionLimitError';
+  }
+}
+
+/**
+ * Undoes compressChunk. Reading stops as soon as the output passes `limit`,
+ * so a crafted chunk cannot inflate into more memory than the chunk or file
+ * it claims to be part of.
+ */
+export async function decompressChunk(
+  format: CompressionFormat,
+  data: ArrayBuffer,
+  limit: number,
+): Promise<ArrayBuffer> {
+  const reader = new Blob([data])
+    .stream()
+    .pipeThrough(new DecompressionStream(format))
+    .getReader();
+  const parts: Uint8Array[] = [];
+  let total = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    total += value.byteLength;
+    if (total > limit) {
+      await reader.cancel();
+      throw new DecompressionLimitError(limit);
+    }
+    parts.push(value);
+  }
+
+  const output = new Uint8Array(total);
+  let offset = 0;
+  parts.forEach((part) => {
+    output.set(part, offset);
+    offset += part.byteLength;
+  });
+  return output.buffer;
+}
+
+/** "3.2×" style label for how much smaller the transfer was. */
+export function formatRatio(raw: number, wire: number) {
+  if (wire <= 0 || raw <= wire) return null;
+  return `${(raw / wire).toFixed(1)}×`;
+}
@@ -0,0 +1,195 @@
+// End-to-end encryption for chunk payloads. The shared secret travels in the
+// share link's #fragment, which browsers never send to the server.
+
+const SECRET_BYTES = 32;
+const IV_BYTES = 12;
+const TAG_BYTES = 16;
+const KEY_INFO = new TextEncoder().encode('peershare/chunk/v1');
+
+/** Bytes an encrypted chunk carries on top of its plaintext (IV + GCM tag). */
+export const ENCRYPTION_OVERHEAD = IV_BYTES + TAG_BYTES;
+
+const toBase64Url = (bytes: Uint8Array) =>
+  btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+
+const fromBase64Url = (value: string) => {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  return Uint8Array.from(atob(base64), (c) => c.charCodeAt(0));
+};
+
+export function generateSecret(): string {
+  return toBase64Url(crypto.getRandomValues(new Uint8Array(SECRET_BYTES)));
+}
+
+/** Reads the `key` parameter from the current URL fragment. */
+export function readSecretFromLocation(): string | null {
+  if (typeof window === 'undefined') return null;
+  const params = new URLSearchParams(window.location.hash.slice(1));
+  return params.get('key');
+}
+
+export const withSecret = (url: string, secret: string | null) =>
+  secret ? `${url}#key=${secret}` : url;
+
+/**
+ * Derives the AES-GCM key for a link. `scope` (the room ID or the sender's
+ * peer ID) salts the derivation so one secret never keys two different links.
+ */
+export async function deriveChunkKey(
+  secret: string,
+  scope: string,
+): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey(
+    'raw',
+    fromBase64Url(secret),
+    'HKDF',
+    false,
+    ['deriveKey'],
+  );
+  return crypto.subtle.deriveKey(
+    {
+      name: 'HKDF',
+      hash: 'SHA-256',
+      salt: new TextEncoder().encode(scope),
+      info: KEY_INFO,
+    },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt'],
+  );
+}
+
+/** Encrypts a chunk into `iv || ciphertext || tag`. */
+export async function encryptChunk(
+  key: CryptoKey,
+  chunk: ArrayBuffer,
+): Promise<ArrayBuffer> {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv },
+    key,
+    chunk,
+  );
+
+  const sealed = new Uint8Array(IV_BYTES + ciphertext.byteLength);
+  sealed.set(iv);
+  sealed.set(new Uint8Array(ciphertext), IV_BYTES);
+  return sealed.buffer;
+}
+
+/** Reverses encryptChunk; rejects if the chunk was tampered with or the key is wrong. */
+export async function decryptChunk(
+  key: CryptoKey,
+  sealed: ArrayBuffer,
+): Promise<ArrayBuffer> {
+  const bytes = new Uint8Array(sealed);
+  return crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: bytes.subarray(0, IV_BYTES) },
+    key,
+    bytes.subarray(IV_BYTES),
+  );
+}
+
+const CHALLENGE_BYTES = 32;
+
+/** A fresh nonce a receiver has to encrypt to show it holds the link's key. */
+export const createKeyChallenge = (): ArrayBuffer =>
+  crypto.getRandomValues(new Uint8Array(CHALLENGE_BYTES)).buffer;
+
+/** Answers a key challenge without revealing the key itself. */
+export const proveKey = (key: CryptoKey, challenge: ArrayBuffer) =>
+  encryptChunk(key, challenge);
+
+/** Checks a proof; GCM authentication means only the key holder can forge one. */
+export async function verifyKeyProof(
+  key: CryptoKey,
+  challenge: ArrayBuffer,
+  proof: ArrayBuffer,
+): Promise<boolean> {
+  try {
+    const answer = new Uint8Array(await decryptChunk(key, proof));
+    const expected = new Uint8Array(challenge);
+    return (
+      answer.length === expected.length &&
+      answer.every((byte, i) => byte === expected[i])
+    );
+  } catch {
+    return false;
+  }
+}
+
+// Passphrases are a few words, so the key derivation has to be slow
+const PASSPHRASE_ITERATIONS = 600_000;
+
+/**
+ * What a passphrase unlocks: the key that seals a secret, and a verifier the
+ * server checks guesses against before it hands the sealed secret out.
+ */
+export type PassphraseKeys = { key: CryptoKey; verifier: string };
+
+/** Runs the slow derivation once for both the key and the verifier. */
+export async function derivePassphraseKeys(
+  passphrase: string,
+  salt: string,
+): Promise<PassphraseKeys> {
+  const material = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(passphrase),
+    'PBKDF2',
+    false,
+    ['deriveBits'],
+  );
+  const bits = new Uint8Array(
+    await crypto.subtle.deriveBits(
+      {
+        name: 'PBKDF2',
+        hash: 'SHA-256',
+        salt: new TextEncoder().encode(salt),
+        iterations: PASSPHRASE_ITERATIONS,
+      },
+      material,
+      512,
+    ),
+  );
+  const key = await crypto.subtle.importKey(
+    'raw',
+    bits.slice(0, 32),
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt'],
+  );
+  return { key, verifier: toBase64Url(bits.slice(32)) };
+}
+
+/**
+ * Encrypts `text` under a passphrase, for storing link secrets on the server
+ * behind a short code.
+ */
+export async function sealWithPassphrase(
+  text: string,
+  { key }: PassphraseKeys,
+): Promise<string> {
+  const sealed = await encryptChunk(
+    key,
+    new TextEncoder().encode(text).buffer as ArrayBuffer,
+  );
+  return toBase64Url(new Uint8Array(sealed));
+}
+
+/** Reverses sealWithPassphrase; returns null when the passphrase is wrong. */
+export async function openWithPassphrase(
+  sealed: string,
+  { key }: PassphraseKeys,
+): Promise<string | null> {
+  try {
+    const bytes = fromBase64Url(sealed);
+    const plain = await decryptChunk(key, bytes.buffer as ArrayBuffer);
+    return new TextDecoder().decode(plain);
+  } catch {
+    return null;
+  }
+}
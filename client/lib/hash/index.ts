@@ -0,0 +1,191 @@
+const K = new Uint32Array([
+  0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1,
+  0x923f82a4, 0xab1c5ed5, 0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3,
+  0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174, 0xe49b69c1, 0xefbe4786,
+  0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+  0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147,
+  0x06ca6351, 0x14292967, 0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13,
+  0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85, 0xa2bfe8a1, 0xa81a664b,
+  0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+  0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a,
+  0x5b9cca4f, 0x682e6ff3, 0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208,
+  0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2,
+]);
+
+const HASH_READ_SIZE = 4 * 1024 * 1024; // 4MB
+
+/**
+ * Incremental SHA-256, so large files and chunk streams can be hashed
+ * without holding the whole payload in memory (crypto.subtle cannot do this).
+ */
+export class Sha256 {
+  private state = new Uint32Array([
+    0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c,
+    0x1f83d9ab, 0x5be0cd19,
+  ]);
+  private block = new Uint8Array(64);
+  private blockLength = 0;
+  private totalLength = 0;
+  private w = new Uint32Array(64);
+
+  update(data: ArrayBuffer | Uint8Array): this {
+    const bytes = data instanceof Uint8Array ? data : new Uint8Array(data);
+    let i = 0;
+    this.totalLength += bytes.length;
+
+    if (this.blockLength > 0) {
+      const take = Math.min(64 - this.blockLength, bytes.length);
+      this.block.set(bytes.subarray(0, take), this.blockLength);
+      this.blockLength += take;
+      i = take;
+      if (this.blockLength < 64) return this;
+      this.compress(this.block, 0);
+      this.blockLength = 0;
+    }
+
+    for (; i + 64 <= bytes.length; i += 64) {
+      this.compress(bytes, i);
+    }
+
+    if (i < bytes.length) {
+      this.block.set(bytes.subarray(i), 0);
+      this.blockLength = bytes.length - i;
+    }
+    return this;
+  }
+
+  digest(): string {
+    const bitLength = this.totalLength * 8;
+    const padLength =
+      this.blockLength < 56 ? 56 - this.blockLength : 120 - this.blockLength;
+    const padding = new Uint8Array(padLength + 8);
+    padding[0] = 0x80;
+    const view = new DataView(padding.buffer);
+    view.setUint32(padLength, Math.floor(bitLength / 0x100000000));
+    view.setUint32(padLength + 4, bitLength >>> 0);
+    this.update(padding);
+
+    return Array.from(this.state)
+      .map((word) => word.toString(16).padStart(8, '0'))
+      .join('');
+  }
+
+  private compress(bytes: Uint8Array, offset: number) {
+    const w = this.w;
+    for (let t = 0; t < 16; t++) {
+      const j = offset + t * 4;
+      w[t] =
+        (bytes[j] << 24) |
+        (bytes[j + 1] << 16) |
+        (bytes[j + 2] << 8) |
+        bytes[j + 3];
+    }
+    for (let t = 16; t < 64; t++) {
+      const w15 = w[t - 15];
+      const w2 = w[t - 2];
+      const s0 = rotr(w15, 7) ^ rotr(w15, 18) ^ (w15 >>> 3);
+      const s1 = rotr(w2, 17) ^ rotr(w2, 19) ^ (w2 >>> 10);
+      w[t] = (w[t - 16] + s0 + w[t - 7] + s1) | 0;
+    }
+
+    let [a, b, c, d, e, f, g, h] = this.state;
+    for (let t = 0; t < 64; t++) {
+      const S1 = rotr(e, 6) ^ rotr(e, 11) ^ rotr(e, 25);
+      const ch = (e & f) ^ (~e & g);
+      const temp1 = (h + S1 + ch + K[t] + w[t]) | 0;
+      const S0 = rotr(a, 2) ^ rotr(a, 13) ^ rotr(a, 22);
+      const maj = (a & b) ^ (a & c) ^ (b & c);
+      const temp2 = (S0 + maj) | 0;
+      h = g;
+      g = f;
+      f = e;
+      e = (d + temp1) | 0;
+      d = c;
+      c = b;
+      b = a;
+      a = (temp1 + temp2) | 0;
+    }
+
+    this.state[0] += a;
+    this.state[1] += b;
+    this.state[2] += c;
+    this.state[3] += d;
+    this.state[4] += e;
+    this.state[5] += f;
+    this.state[6] += g;
+    this.state[7] += h;
+  }
+}
+
+function rotr(x: number, n: number) {
+  return (x >>> n) | (x << (32 - n));
+}
+
+export function sha256(data: ArrayBuffer | Uint8Array): string {
+  return new Sha256().update(data).digest();
+}
+
+const fileHashCache = new WeakMap<Blob, Promise<string>>();
+
+/** Hashes a file slice by slice; results are cached per Blob for resends. */
+export function hashFile(file: Blob): Promise<string> {
+  const cached = fileHashCache.get(file);
+  if (cached) return cached;
+
+  const pending = (async () => {
+    const hasher = new Sha256();
+    for (let offset = 0; offset < file.size; offset += HASH_READ_SIZE) {
+      const buffer = await file
+        .slice(offset, offset + HASH_READ_SIZE)
+        .arrayBuffer();
+      hasher.update(buffer);
+    }
+    return hasher.digest();
+  })();
+
+  fileHashCache.set(file, pending);
+  pending.catch(() => fileHashCache.delete(file));
+  return pending;
+}
+
+export type IntegrityStatus = 'pending' | 'verified' | 'corrupted';
+
+/**
+ * Checks an in-order chunk stream against per-chunk hashes and the
+ * whole-file hash announced in the metadata message.
+ */
+export class ChunkVerifier {
+  private hasher = new Sha256();
+  private nextIndex = 0;
+  private totalChunks: number | null = null;
+  private corrupted = false;
+
+  constructor(private readonly fileHash: string) {}
+
+  /** Returns false if the chunk is out of order or does not match its hash. */
+  verifyChunk(
+    chunk: ArrayBuffer,
+    index: number,
+    totalChunks: number,
+    hash: string,
+  ): boolean {
+    this.totalChunks = totalChunks;
+    if (index !== this.nextIndex || sha256(chunk) !== hash) {
+      this.corrupted = true;
+    }
+    this.hasher.update(chunk);
+    this.nextIndex += 1;
+    return !this.corrupted;
+  }
+
+  finish(): IntegrityStatus {
+    if (
+      this.corrupted ||
+      this.nextIndex !== this.totalChunks ||
+      this.hasher.digest() !== this.fileHash
+    ) {
+      return 'corrupted';
+    }
+    return 'verified';
+  }
+}
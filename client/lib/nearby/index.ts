@@ -0,0 +1,190 @@
+import type { DataConnection } from 'peerjs';
+
+// Nearby discovery: senders and room members that opt in are listed to
+// everyone who reaches the server from the same public address, so devices on
+// one network find each other without passing a link around. The listing only
+// names a peer; a nearby device connects to it to ask for access, and the
+// link with its key comes back over that connection once the owner allows it.
+
+export type NearbyKind = 'peer' | 'room';
+
+export type NearbyEntry = {
+  // The peer to ask for access: a sender, or one member of a room
+  peerId: string;
+  name: string;
+  kind: NearbyKind;
+};
+
+export type NearbyAnnouncement = NearbyEntry;
+
+// How often the home page looks for nearby senders and rooms
+export const NEARBY_POLL_INTERVAL = 5000;
+// Seconds between heartbeats are derived from this until the server answers
+const DEFAULT_NEARBY_TTL = 30;
+// The owner has this long to answer before the asking device gives up
+const ACCESS_REQUEST_TIMEOUT = 1000 * 60 * 2; // 2 minutes
+// The asking device hangs up once it reads the answer; this is the fallback
+const ANSWER_CLOSE_DELAY = 2000;
+
+type AccessMessage =
+  | { type: 'access-granted'; payload: { link: string } }
+  | { type: 'access-denied' };
+
+export async function listNearby(): Promise<NearbyEntry[]> {
+  const response = await fetch('/api/nearby');
+  if (!response.ok) throw new Error('Could not list nearby devices');
+  const { entries } = (await response.json()) as { entries: NearbyEntry[] };
+  return entries;
+}
+
+/**
+ * Lists or refreshes an entry. The first call issues an owner token that
+ * every later call, including the withdrawal, has to present.
+ */
+export async function announceNearby(
+  announcement: NearbyAnnouncement,
+  ownerToken: string | null,
+): Promise<{ ttl: number; ownerToken: string | null }> {
+  const response = await fetch('/api/nearby', {
+    method: 'PUT',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(ownerToken ? { Authorization: `Bearer ${ownerToken}` } : {}),
+    },
+    body: JSON.stringify(announcement),
+  });
+  if (!response.ok) throw new Error('Could not announce to nearby devices');
+  const data = (await response.json()) as { ttl: number; ownerToken?: string };
+  return { ttl: data.ttl, ownerToken: data.ownerToken ?? ownerToken };
+}
+
+/**
+ * Keeps an entry listed with heartbeats until the returned function is
+ * called, which takes it off the list again.
+ */
+export function keepAnnounced(announcement: NearbyAnnouncement): () => void {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let stopped = false;
+  let ownerToken: string | null = null;
+
+  const beat = async () => {
+    let ttl = DEFAULT_NEARBY_TTL;
+    try {
+      ({ ttl, ownerToken } = await announceNearby(announcement, ownerToken));
+    } catch (error) {
+      console.error('Nearby announcement failed:', error);
+    }
+    // Three beats per TTL, so one slow request never drops us from the list
+    if (!stopped) timer = setTimeout(beat, (ttl * 1000) / 3);
+  };
+  void beat();
+
+  return () => {
+    stopped = true;
+    clearTimeout(timer);
+    if (ownerToken) void withdrawNearby(announcement.peerId, ownerToken);
+  };
+}
+
+export function withdrawNearby(peerId: string, ownerToken: string) {
+  return fetch('/api/nearby', {
+    method: 'DELETE',
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${ownerToken}`,
+    },
+    body: JSON.stringify({ peerId }),
+    keepalive: true,
+  }).catch(() => {});
+}
+
+/** Whether an incoming connection is a nearby device asking for the link. */
+export const isAccessRequest = (conn: DataConnection) =>
+  (conn.metadata as { nearbyAccess?: boolean } | undefined)?.nearbyAccess ===
+  true;
+
+/** Sends the link to a device that asked for access, or null to turn it down. */
+export function answerAccessRequest(conn: DataConnection, link: string | null) {
+  const answer = () => {
+    const message: AccessMessage = link
+      ? { type: 'access-granted', payload: { link } }
+      : { type: 'access-denied' };
+    conn.send(message);
+    setTimeout(() => conn.close(), ANSWER_CLOSE_DELAY);
+  };
+  if (conn.open) answer();
+  else conn.once('open', answer);
+}
+
+/**
+ * Asks a nearby peer for its link over a short-lived connection. Resolves
+ * to the link once the owner allows it, or null when they turn us down.
+ */
+export async function requestAccess(peerId: string): Promise<string | null> {
+  const { default: Peer } = await import('peerjs');
+  const peer = new Peer({
+    host: process.env.NEXT_PUBLIC_PEER_HOST || '0.peerjs.com',
+    port: +(process.env.NEXT_PUBLIC_PEER_PORT || 443),
+    path: process.env.NEXT_PUBLIC_PEER_PATH || '/',
+    secure: process.env.NEXT_PUBLIC_PEER_SECURE === 'true',
+    config: {
+      iceServers: [
+        { urls: 'stun:stun.l.google.com:19302' },
+        { urls: 'stun:stun1.l.google.com:19302' },
+        { urls: 'stun:stun.cloudflare.com:3478' },
+        ...(process.env.NEXT_PUBLIC_STUN_URL
+          ? [
+              {
+                urls: process.env.NEXT_PUBLIC_STUN_URL,
+                username: process.env.NEXT_PUBLIC_STUN_USERNAME,
+                credential: process.env.NEXT_PUBLIC_STUN_CREDENTIAL,
+              },
+            ]
+          : []),
+      ],
+    },
+  });
+
+  try {
+    return await new Promise<string | null>((resolve, reject) => {
+      const timer = setTimeout(
+        () => reject(new Error('No answer from the nearby device')),
+        ACCESS_REQUEST_TIMEOUT,
+      );
+      const settle = (link: string | null) => {
+        clearTimeout(timer);
+        resolve(link);
+      };
+      const fail = (error: Error) => {
+        clearTimeout(timer);
+        reject(error);
+      };
+
+      peer.on('error', fail);
+      peer.on('open', () => {
+        const conn = peer.connect(peerId, {
+          reliable: true,
+          metadata: { nearbyAccess: true },
+        });
+        conn.on('data', (data) => {
+          const message = data as AccessMessage;
+          if (message.type === 'access-denied') {
+            settle(null);
+          } else if (
+            message.type === 'access-granted' &&
+            // Only links into this app, never somewhere else
+            /^\/(receive|room)\//.test(message.payload.link)
+          ) {
+            settle(message.payload.link);
+          }
+        });
+        conn.on('close', () =>
+          fail(new Error('The nearby device closed the connection')),
+        );
+        conn.on('error', fail);
+      });
+    });
+  } finally {
+    peer.destroy();
+  }
+}
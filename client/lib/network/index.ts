@@ -0,0 +1,45 @@
+import { env } from '@/env/server';
+import { sign } from '@/lib/room-auth';
+
+// Server-side only: where a request came from, as far as we can trust it.
+
+/**
+ * Returns the caller's address as the outermost of our proxies saw it. Each
+ * proxy appends the address it was reached from to X-Forwarded-For, so
+ * counting TRUSTED_PROXY_HOPS entries from the right skips anything the
+ * client wrote there itself. Without a configured hop the header proves
+ * nothing, so there is no address.
+ */
+export function getClientAddress(req: Request): string | null {
+  const hops = env.TRUSTED_PROXY_HOPS;
+  if (hops === 0) return null;
+
+  const forwarded = (req.headers.get('x-forwarded-for') ?? '')
+    .split(',')
+    .map((address) => address.trim())
+    .filter(Boolean);
+  return forwarded[forwarded.length - hops] ?? null;
+}
+
+/**
+ * Names the nearby group for everyone behind the caller's public address.
+ * The address is signed, so it is never stored and the name cannot be
+ * guessed from it.
+ */
+export function getNetworkGroup(req: Request): string | null {
+  const address = getClientAddress(req);
+  return address ? sign(`network:${address}`) : null;
+}
+
+/**
+ * Names the caller for rate limits. Behind trusted proxies that is their
+ * address; without any it falls back to the last X-Forwarded-For entry,
+ * which Next fills in with the socket address unless the client sent the
+ * header itself. Signed like the network group, so no address is stored.
+ */
+export function getRateLimitKey(req: Request): string {
+  const address =
+    getClientAddress(req) ??
+    (req.headers.get('x-forwarded-for')?.split(',').pop()?.trim() || 'unknown');
+  return sign(`client:${address}`);
+}
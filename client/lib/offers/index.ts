@@ -0,0 +1,41 @@
+// Files are offered before they stream; nothing is sent until the
+// recipient accepts.
+
+export const OFFER_TIMEOUT = 5 * 60 * 1000; // 5 minutes
+
+export type OfferAnswer = 'accepted' | 'declined' | 'unanswered';
+
+const offerKey = (fileId: string, peerId: string) => `${fileId}:${peerId}`;
+
+/** Offers still waiting for their recipient, keyed by file and peer. */
+export class OfferWaiters {
+  private waiters = new Map<string, (answer: OfferAnswer) => void>();
+
+  /** Resolves with the recipient's reply, or 'unanswered' after `timeout`. */
+  wait(fileId: string, peerId: string, timeout = OFFER_TIMEOUT) {
+    return new Promise<OfferAnswer>((resolve) => {
+      const key = offerKey(fileId, peerId);
+      const timer = setTimeout(() => settle('unanswered'), timeout);
+      const settle = (answer: OfferAnswer) => {
+        clearTimeout(timer);
+        this.waiters.delete(key);
+        resolve(answer);
+      };
+      this.waiters.set(key, settle);
+    });
+  }
+
+  answer(fileId: string, peerId: string, answer: OfferAnswer) {
+    this.waiters.get(offerKey(fileId, peerId))?.(answer);
+  }
+
+  /**
+   * Gives up on the offers made to a peer, e.g. once it disconnects, or on
+   * every open offer when no peer is given.
+   */
+  abandon(peerId?: string) {
+    this.waiters.forEach((settle, key) => {
+      if (!peerId || key.endsWith(`:${peerId}`)) settle('unanswered');
+    });
+  }
+}
@@ -0,0 +1,43 @@
+// Heartbeats a member may miss before we treat them as gone
+export const MISSED_HEARTBEAT_LIMIT = 2;
+
+/**
+ * Counts the registry heartbeats each member was missing from. A peer that
+ * joined mid-request may not be listed yet, so a single miss is forgiven.
+ */
+export class MissedHeartbeats {
+  private missed = new Map<string, number>();
+
+  constructor(private readonly limit = MISSED_HEARTBEAT_LIMIT) {}
+
+  /**
+   * Records one heartbeat's list of live peers and returns the members to
+   * drop. Open connections are left to their own close handler.
+   */
+  record(
+    memberIds: string[],
+    alive: Set<string>,
+    isConnected: (peerId: string) => boolean,
+  ) {
+    const gone: string[] = [];
+    memberIds.forEach((peerId) => {
+      if (alive.has(peerId)) {
+        this.missed.delete(peerId);
+        return;
+      }
+
+      const count = (this.missed.get(peerId) ?? 0) + 1;
+      if (count >= this.limit && !isConnected(peerId)) {
+        this.missed.delete(peerId);
+        gone.push(peerId);
+      } else {
+        this.missed.set(peerId, count);
+      }
+    });
+    return gone;
+  }
+
+  clear() {
+    this.missed.clear();
+  }
+}
@@ -0,0 +1,211 @@
+import type { DataConnection } from 'peerjs';
+
+import type { CompressionFormat } from '@/lib/compression';
+import type { OfferAnswer } from '@/lib/offers';
+import {
+  type FileMetadata,
+  type PeerData,
+  type TransferAction,
+  endsStream,
+} from '@/lib/room-protocol';
+import {
+  type RelayNode,
+  type SendScheduler,
+  flattenRelayTree,
+} from '@/lib/transfer';
+
+// From this many recipients on, files spread through a relay tree
+export const RELAY_MIN_RECIPIENTS = 4;
+// How long after the first accept to wait for others before the tree is built
+export const RELAY_GATHER_WINDOW = 10 * 1000; // 10 seconds
+// A relay holds at most this much for one child before it pauses its own
+// source, and lets it go on once every child is back under the low mark
+export const RELAY_QUEUE_HIGH_WATER_MARK = 8 * 1024 * 1024; // 8MB
+export const RELAY_QUEUE_LOW_WATER_MARK = 2 * 1024 * 1024; // 2MB
+
+// Messages a relay still has to forward to one peer of its subtree
+type RelayQueue = {
+  messages: PeerData[];
+  // Chunk bytes held in `messages`
+  bytes: number;
+  done: boolean;
+  // Messages keep queueing while the child has us paused, up to the cap
+  paused?: boolean;
+};
+
+/**
+ * Resolves with the peers that accepted an offer, once everyone answered or
+ * `window` after the first accept, whichever comes first.
+ */
+export function gatherAccepted(
+  peerIds: string[],
+  answers: Promise<OfferAnswer>[],
+  window = RELAY_GATHER_WINDOW,
+) {
+  return new Promise<string[]>((resolve) => {
+    const accepted: string[] = [];
+    let unanswered = answers.length;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const finish = () => {
+      clearTimeout(timer);
+      resolve([...accepted]);
+    };
+
+    answers.forEach((answer, i) =>
+      answer.then((result) => {
+        if (result === 'accepted') {
+          accepted.push(peerIds[i]);
+          timer ??= setTimeout(finish, window);
+        }
+        if (--unanswered === 0) finish();
+      }),
+    );
+  });
+}
+
+/**
+ * Forwards files we receive to our part of their relay tree. Every child
+ * drains its own queue at its own pace, and a child that falls too far
+ * behind holds back our source rather than our memory.
+ */
+export class RelayForwarder {
+  private queues = new Map<string, Map<string, RelayQueue>>();
+  // Files whose source we paused until our children catch up
+  private throttled = new Set<string>();
+
+  constructor(
+    private readonly scheduler: SendScheduler,
+    private readonly connectionOf: (
+      peerId: string,
+    ) => DataConnection | undefined,
+    // Asks whoever streams the file to us to pause or go on
+    private readonly onThrottle: (fileId: string, throttled: boolean) => void,
+  ) {}
+
+  has(fileId: string) {
+    return this.queues.has(fileId);
+  }
+
+  isThrottled(fileId: string) {
+    return this.throttled.has(fileId);
+  }
+
+  /**
+   * Announces the file to each child and starts forwarding to it. Returns
+   * the peers of subtrees whose root we could not reach.
+   */
+  start(
+    metadata: FileMetadata,
+    relayTo: RelayNode[],
+    compression?: CompressionFormat,
+  ): string[] {
+    const { fileId } = metadata;
+    const queues = new Map<string, RelayQueue>();
+    const unreachable: string[] = [];
+
+    relayTo.forEach((node) => {
+      const child = this.connectionOf(node.peerId);
+      if (!child?.open) {
+        unreachable.push(...flattenRelayTree([node]));
+        return;
+      }
+
+      const queue: RelayQueue = { messages: [], bytes: 0, done: false };
+      queues.set(node.peerId, queue);
+      child.send({
+        type: 'metadata',
+        payload: metadata,
+        relayTo: node.relayTo,
+        compression,
+      });
+      this.scheduler
+        .enqueue(child, async () => {
+          // Control messages still get through to a paused child
+          if (queue.paused && queue.messages[0]?.type === 'chunk') {
+            return undefined;
+          }
+          const message = queue.messages.shift();
+          if (message) {
+            if (message.type === 'chunk') {
+              queue.bytes -= message.payload.byteLength;
+              this.throttle(fileId);
+            }
+            if (endsStream(message)) queue.done = true;
+            return message;
+          }
+          return queue.done ? null : undefined;
+        })
+        .catch(() => {
+          // The child's own subtree resumes from the sender once it notices
+          queues.delete(node.peerId);
+          this.throttle(fileId);
+        });
+    });
+
+    this.queues.set(fileId, queues);
+    return unreachable;
+  }
+
+  /** Queues a message from our source for every child. */
+  forward(fileId: string, message: PeerData) {
+    const queues = this.queues.get(fileId);
+    if (!queues) return;
+    queues.forEach((queue) => {
+      queue.messages.push(message);
+      if (message.type === 'chunk') {
+        queue.bytes += message.payload.byteLength;
+      }
+    });
+    if (endsStream(message)) {
+      this.queues.delete(fileId);
+      this.throttled.delete(fileId);
+    } else {
+      this.throttle(fileId);
+    }
+    this.scheduler.notify();
+  }
+
+  /**
+   * Applies a child's pause, resume or cancel to its queue. Returns false
+   * when the peer is not one we forward this file to.
+   */
+  control(fileId: string, peerId: string, action: TransferAction) {
+    const queues = this.queues.get(fileId);
+    const queue = queues?.get(peerId);
+    if (!queues || !queue) return false;
+
+    if (action === 'cancel') {
+      queue.messages = [];
+      queue.bytes = 0;
+      queue.done = true;
+      queues.delete(peerId);
+      this.throttle(fileId);
+    } else {
+      queue.paused = action === 'pause';
+    }
+    this.scheduler.notify();
+    return true;
+  }
+
+  clear() {
+    this.queues.clear();
+    this.throttled.clear();
+  }
+
+  /**
+   * Throttles a file while any child's queue is over the high-water mark,
+   * and lets it go once all of them drain below the low one.
+   */
+  private throttle(fileId: string) {
+    const queues = Array.from(this.queues.get(fileId)?.values() ?? []);
+    const wasThrottled = this.throttled.has(fileId);
+    const isThrottled = wasThrottled
+      ? queues.some((queue) => queue.bytes > RELAY_QUEUE_LOW_WATER_MARK)
+      : queues.some((queue) => queue.bytes > RELAY_QUEUE_HIGH_WATER_MARK);
+    if (isThrottled === wasThrottled) return;
+
+    if (isThrottled) this.throttled.add(fileId);
+    else this.throttled.delete(fileId);
+    this.onThrottle(fileId, isThrottled);
+  }
+}
@@ -0,0 +1,115 @@
+import {
+  createHmac,
+  randomBytes,
+  scryptSync,
+  timingSafeEqual,
+} from 'node:crypto';
+
+import { env } from '@/env/server';
+
+// Server-side only: password hashing and signed room tokens.
+
+export const INVITE_TOKEN_TTL = 1000 * 60 * 60 * 24; // 24 hours
+export const MEMBER_TOKEN_TTL = 1000 * 60 * 60 * 24; // 24 hours
+
+// `isProtected` records that the room had a password when the token was
+// issued, so the token can never reopen the room without one
+export type InviteClaims = {
+  kind: 'invite';
+  roomId: string;
+  isProtected: boolean;
+  exp: number;
+};
+export type MemberClaims = {
+  kind: 'member';
+  roomId: string;
+  peerId: string;
+  isProtected: boolean;
+  exp: number;
+};
+type TokenClaims = InviteClaims | MemberClaims;
+
+declare global {
+  var __roomTokenSecret: string | undefined;
+}
+
+// Without a configured secret, tokens are only valid for this process; the
+// env schema only allows that with the single-process memory store
+const secret =
+  env.ROOM_TOKEN_SECRET ||
+  (globalThis.__roomTokenSecret ??= randomBytes(32).toString('hex'));
+
+/** HMACs a value with the token secret, for IDs derived from private data. */
+export const sign = (data: string) =>
+  createHmac('sha256', secret).update(data).digest('base64url');
+
+const safeEqual = (a: string, b: string) => {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && timingSafeEqual(left, right);
+};
+
+export function signToken(claims: TokenClaims): string {
+  const body = Buffer.from(JSON.stringify(claims)).toString('base64url');
+  return `${body}.${sign(body)}`;
+}
+
+export function verifyToken<K extends TokenClaims['kind']>(
+  token: string | null | undefined,
+  kind: K,
+): Extract<TokenClaims, { kind: K }> | null {
+  if (!token) return null;
+  const [body, signature] = token.split('.');
+  if (!body || !signature || !safeEqual(signature, sign(body))) return null;
+
+  try {
+    const claims = JSON.parse(
+      Buffer.from(body, 'base64url').toString('utf8'),
+    ) as TokenClaims;
+    if (claims.kind !== kind || claims.exp < Date.now()) return null;
+    return claims as Extract<TokenClaims, { kind: K }>;
+  } catch {
+    return null;
+  }
+}
+
+export const createInviteToken = (roomId: string, isProtected: boolean) =>
+  signToken({
+    kind: 'invite',
+    roomId,
+    isProtected,
+    exp: Date.now() + INVITE_TOKEN_TTL,
+  });
+
+export const createMemberToken = (
+  roomId: string,
+  peerId: string,
+  isProtected: boolean,
+) =>
+  signToken({
+    kind: 'member',
+    roomId,
+    peerId,
+    isProtected,
+    exp: Date.now() + MEMBER_TOKEN_TTL,
+  });
+
+/** Returns the member claims carried in an `Authorization: Bearer` header. */
+export function getMemberClaims(req: Request, roomId: string) {
+  const header = req.headers.get('authorization') ?? '';
+  const token = header.startsWith('Bearer ') ? header.slice(7) : null;
+  const claims = verifyToken(token, 'member');
+  return claims?.roomId === roomId ? claims : null;
+}
+
+export function hashPassword(password: string): string {
+  const salt = randomBytes(16).toString('hex');
+  const hash = scryptSync(password, salt, 32).toString('hex');
+  return `${salt}:${hash}`;
+}
+
+export function verifyPassword(password: string, stored: string): boolean {
+  const [salt, hash] = stored.split(':');
+  if (!salt || !hash) return false;
+  return safeEqual(scryptSync(password, salt, 32).toString('hex'), hash);
+}
@@ -0,0 +1,148 @@
+import { type CompressionFormat, decompressChunk } from '@/lib/compression';
+import { decryptChunk } from '@/lib/encryption';
+import { DEFAULT_CHUNK_SIZE, type RelayNode } from '@/lib/transfer';
+
+// Messages room members exchange over their data connections, and the
+// shapes the room registry answers with.
+
+// Streams size their chunks per link, but swarm pieces keep one fixed size
+// so every holder numbers them the same way
+export const PIECE_SIZE = DEFAULT_CHUNK_SIZE;
+
+export const chunkCount = (size: number) =>
+  Math.max(1, Math.ceil(size / PIECE_SIZE));
+
+// Files picked as a folder travel one by one but are shown and saved together
+export type BundleRef = {
+  id: string;
+  // Name of the top-level folder
+  name: string;
+  // Relative path including the top-level folder, e.g. "photos/2024/a.jpg"
+  path: string;
+  count: number;
+};
+
+export type FileMetadata = {
+  name: string;
+  size: number;
+  type: string;
+  senderId: string;
+  senderName: string;
+  fileId: string;
+  sha256: string;
+  // Files sent to the whole room may be re-served by anyone who holds them
+  audience: 'room' | 'selected';
+  bundle?: BundleRef;
+};
+
+export type RoomUser = {
+  peerId: string;
+  name: string;
+};
+
+export type JoinPayload = RoomUser & {
+  // Member token issued by the peers API, checked by the receiving peer
+  proof: string;
+};
+
+export type JoinResponse = {
+  peers: RoomUser[];
+  isProtected: boolean;
+  memberToken: string;
+  inviteToken: string;
+  ttl: number;
+  error?: string;
+};
+
+// Membership changes pushed by /api/rooms/[roomId]/events
+export type RoomEvent =
+  | { type: 'snapshot'; peers: RoomUser[] }
+  | { type: 'join' | 'rename'; peer: RoomUser }
+  | { type: 'leave'; peerId: string };
+
+export type HeartbeatResponse = {
+  peers: RoomUser[];
+  ttl: number;
+  memberToken: string;
+};
+
+export type TransferAction = 'pause' | 'resume' | 'cancel';
+
+export type ResumeOffset = {
+  fileId: string;
+  offset: number;
+  // Chunks already received; sizes vary, so it cannot be derived from offset
+  index: number;
+};
+
+export type PeerData =
+  | { type: 'join'; payload: JoinPayload }
+  | { type: 'user-list'; payload: RoomUser[] }
+  | { type: 'user-joined'; payload: RoomUser }
+  | { type: 'user-left'; payload: { peerId: string } }
+  | {
+      type: 'metadata';
+      payload: FileMetadata;
+      relayTo?: RelayNode[];
+      // Format the sender picked for this stream, if any
+      compression?: CompressionFormat;
+    }
+  | {
+      type: 'chunk';
+      payload: ArrayBuffer;
+      index: number;
+      totalChunks: number;
+      hash: string;
+      fileId: string;
+      // Set when the payload was compressed before it was encrypted
+      compression?: CompressionFormat;
+    }
+  | { type: 'end'; payload: { fileId: string } }
+  // Sent for every streamed chunk once it is written; drives chunk sizing
+  | { type: 'ack'; payload: { fileId: string; index: number } }
+  | { type: 'resume'; payload: { files: ResumeOffset[] } }
+  | { type: 'offer'; payload: FileMetadata }
+  // Carries the compression formats the receiver can decode
+  | {
+      type: 'accept';
+      payload: { fileId: string; compression?: CompressionFormat[] };
+    }
+  | { type: 'decline'; payload: { fileId: string } }
+  // Completion receipt, so the sender can track peers it reached via relays
+  | { type: 'received'; payload: { fileId: string } }
+  // A relay could not reach part of its subtree
+  | { type: 'relay-miss'; payload: { fileId: string; peerIds: string[] } }
+  // Which chunks of a file a peer can serve, one bit per chunk
+  | { type: 'have'; payload: { metadata: FileMetadata; bitfield: Uint8Array } }
+  // Asks a holder for specific chunks; answered with `chunk` messages
+  | { type: 'request'; payload: { fileId: string; indices: number[] } }
+  // Complete room files a peer holds, sent once when a connection opens
+  | { type: 'catalog'; payload: { files: FileMetadata[] } }
+  // Either end of a stream can pause, resume or cancel it
+  | {
+      type: 'control';
+      payload: { fileId: string; action: TransferAction };
+    };
+
+export type ChunkMessage = Extract<PeerData, { type: 'chunk' }>;
+
+/** Whether this is the last message a relay forwards for a file. */
+export const endsStream = (message: PeerData) =>
+  message.type === 'end' ||
+  (message.type === 'control' && message.payload.action === 'cancel');
+
+/**
+ * Undoes encryptChunk and, when the sender applied it, compressChunk.
+ * `limit` is the most bytes the chunk may hold once decompressed.
+ */
+export async function openChunk(
+  key: CryptoKey,
+  data: ChunkMessage,
+  sealed: ArrayBuffer,
+  limit: number,
+) {
+  const chunk = await decryptChunk(key, sealed);
+  return data.compression
+    ? decompressChunk(data.compression, chunk, limit)
+    : chunk;
+}
@@ -0,0 +1,46 @@
+import { EventEmitter } from 'node:events';
+
+import type { PeerEntry } from './types';
+
+export type RoomEvent =
+  | { type: 'join'; peer: PeerEntry }
+  | { type: 'leave'; peerId: string }
+  | { type: 'rename'; peer: PeerEntry };
+
+declare global {
+  var __roomEvents: EventEmitter | undefined;
+}
+
+// Wakes up this instance's streams right away. Changes made by other
+// instances are picked up when the streams poll the store.
+const emitter = (globalThis.__roomEvents ??= new EventEmitter().setMaxListeners(
+  0,
+));
+
+export const notifyRoom = (roomId: string) => emitter.emit(roomId);
+
+/** Calls `listener` whenever this instance changes the room; returns an unsubscribe function. */
+export function onRoomChange(roomId: string, listener: () => void) {
+  emitter.on(roomId, listener);
+  return () => {
+    emitter.off(roomId, listener);
+  };
+}
+
+/** Turns two membership snapshots into the events that lead from one to the other. */
+export function diffPeers(prev: PeerEntry[], next: PeerEntry[]): RoomEvent[] {
+  const before = new Map(prev.map((peer) => [peer.peerId, peer]));
+  const after = new Map(next.map((peer) => [peer.peerId, peer]));
+  const events: RoomEvent[] = [];
+
+  before.forEach((_, peerId) => {
+    if (!after.has(peerId)) events.push({ type: 'leave', peerId });
+  });
+  after.forEach((peer, peerId) => {
+    const old = before.get(peerId);
+    if (!old) events.push({ type: 'join', peer });
+    else if (old.name !== peer.name) events.push({ type: 'rename', peer });
+  });
+
+  return events;
+}
@@ -0,0 +1,260 @@
+import { mkdir, readFile, rename, writeFile } from 'node:fs/promises';
+import { dirname } from 'node:path';
+
+import {
+  type NearbyRecord,
+  type PeerEntry,
+  ROOM_IDLE_TIMEOUT,
+  ROOM_PASSWORD_TTL,
+  type RoomStore,
+  SHORT_CODE_TTL,
+  type ShortCodeTarget,
+} from './types';
+
+type RoomSnapshot = Record<
+  string,
+  {
+    peers: Record<string, PeerEntry>;
+    passwordHash: string | null;
+    // Missing in files written before passwords lapsed on their own
+    passwordExpiresAt?: number;
+    // When the peers idle out; missing in older files and password-only rooms
+    expiresAt?: number;
+  }
+>;
+
+type Snapshot = {
+  version: 2;
+  rooms: RoomSnapshot;
+  codes: Record<string, { target: ShortCodeTarget; expiresAt: number }>;
+  nearby: Record<string, Record<string, NearbyRecord>>;
+  // When each nearby group idles out; missing for groups from older files
+  nearbyExpiresAt: Record<string, number>;
+  counters: Record<string, { count: number; expiresAt: number }>;
+};
+
+const isIdle = (expiresAt: number | undefined, now: number) =>
+  (expiresAt ?? Infinity) <= now;
+
+/** Forgets rooms and nearby groups nobody touched for ROOM_IDLE_TIMEOUT. */
+const sweepIdle = (snapshot: Snapshot, now: number) => {
+  Object.entries(snapshot.rooms).forEach(([id, room]) => {
+    if (!isIdle(room.expiresAt, now)) return;
+    if (room.passwordHash && !isIdle(room.passwordExpiresAt, now)) {
+      // The password keeps its own expiry; only the peers go
+      room.peers = {};
+      delete room.expiresAt;
+    } else {
+      delete snapshot.rooms[id];
+    }
+  });
+  Object.entries(snapshot.nearbyExpiresAt).forEach(([group, expiresAt]) => {
+    if (!isIdle(expiresAt, now)) return;
+    delete snapshot.nearby[group];
+    delete snapshot.nearbyExpiresAt[group];
+  });
+};
+
+/**
+ * Keeps rooms in a JSON file so they survive restarts. Meant for a single
+ * instance: writes are serialized in-process and land atomically via rename.
+ */
+export class FileRoomStore implements RoomStore {
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(private path: string) {}
+
+  private async read(): Promise<Snapshot> {
+    try {
+      const data = JSON.parse(await readFile(this.path, 'utf8')) as
+        | Snapshot
+        | RoomSnapshot;
+      // Files written before short codes hold nothing but rooms
+      if (data.version !== 2) {
+        return {
+          version: 2,
+          rooms: data as RoomSnapshot,
+          codes: {},
+          nearby: {},
+          nearbyExpiresAt: {},
+          counters: {},
+        };
+      }
+      // Nor do files written before nearby discovery have groups or counters
+      const snapshot = data as Snapshot;
+      return {
+        ...snapshot,
+        nearby: snapshot.nearby ?? {},
+        nearbyExpiresAt: snapshot.nearbyExpiresAt ?? {},
+        counters: snapshot.counters ?? {},
+      };
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return {
+          version: 2,
+          rooms: {},
+          codes: {},
+          nearby: {},
+          nearbyExpiresAt: {},
+          counters: {},
+        };
+      }
+      throw error;
+    }
+  }
+
+  private async write(snapshot: Snapshot) {
+    await mkdir(dirname(this.path), { recursive: true });
+    const temp = `${this.path}.${process.pid}.tmp`;
+    await writeFile(temp, JSON.stringify(snapshot));
+    await rename(temp, this.path);
+  }
+
+  /** Runs read-modify-write steps one at a time so updates never interleave. */
+  private update<T>(change: (snapshot: Snapshot) => T): Promise<T> {
+    const result = this.queue.then(async () => {
+      const snapshot = await this.read();
+      sweepIdle(snapshot, Date.now());
+      const value = change(snapshot);
+      await this.write(snapshot);
+      return value;
+    });
+    this.queue = result.catch(() => {});
+    return result;
+  }
+
+  async listPeers(roomId: string) {
+    await this.queue;
+    const room = (await this.read()).rooms[roomId];
+    if (!room || isIdle(room.expiresAt, Date.now())) return [];
+    return Object.values(room.peers);
+  }
+
+  upsertPeer(roomId: string, entry: PeerEntry) {
+    return this.update((snapshot) => {
+      const room = (snapshot.rooms[roomId] ??= {
+        peers: {},
+        passwordHash: null,
+      });
+      room.peers[entry.peerId] = entry;
+      const now = Date.now();
+      room.expiresAt = now + ROOM_IDLE_TIMEOUT;
+      if (room.passwordHash) {
+        room.passwordExpiresAt = now + ROOM_PASSWORD_TTL;
+      }
+    });
+  }
+
+  removePeer(roomId: string, peerId: string) {
+    return this.update((snapshot) => {
+      const room = snapshot.rooms[roomId];
+      if (!room) return 0;
+      delete room.peers[peerId];
+      return Object.keys(room.peers).length;
+    });
+  }
+
+  async getPasswordHash(roomId: string) {
+    await this.queue;
+    const room = (await this.read()).rooms[roomId];
+    if ((room?.passwordExpiresAt ?? Infinity) <= Date.now()) return null;
+    return room?.passwordHash ?? null;
+  }
+
+  setPasswordHash(roomId: string, hash: string) {
+    return this.update((snapshot) => {
+      const room = (snapshot.rooms[roomId] ??= {
+        peers: {},
+        passwordHash: null,
+      });
+      room.passwordHash = hash;
+      room.passwordExpiresAt = Date.now() + ROOM_PASSWORD_TTL;
+    });
+  }
+
+  deleteRoom(roomId: string) {
+    return this.update((snapshot) => {
+      const now = Date.now();
+      const room = snapshot.rooms[roomId];
+      if (room?.passwordHash) {
+        // The password stays until it lapses; only the peers go
+        room.peers = {};
+        room.passwordExpiresAt ??= now + ROOM_PASSWORD_TTL;
+      }
+      // Emptied rooms are swept here once their passwords lapse
+      Object.entries(snapshot.rooms).forEach(([id, entry]) => {
+        const lapsed =
+          !entry.passwordHash || (entry.passwordExpiresAt ?? Infinity) <= now;
+        if (Object.keys(entry.peers).length === 0 && lapsed) {
+          delete snapshot.rooms[id];
+        }
+      });
+    });
+  }
+
+  claimCode(code: string, target: ShortCodeTarget) {
+    return this.update((snapshot) => {
+      const now = Date.now();
+      // Expired codes are swept here, the only place new ones are written
+      Object.entries(snapshot.codes).forEach(([key, entry]) => {
+        if (entry.expiresAt <= now) delete snapshot.codes[key];
+      });
+      if (snapshot.codes[code]) return false;
+      snapshot.codes[code] = { target, expiresAt: now + SHORT_CODE_TTL };
+      return true;
+    });
+  }
+
+  async resolveCode(code: string) {
+    await this.queue;
+    const entry = (await this.read()).codes[code];
+    return entry && entry.expiresAt > Date.now() ? entry.target : null;
+  }
+
+  deleteCode(code: string) {
+    return this.update((snapshot) => {
+      delete snapshot.codes[code];
+    });
+  }
+
+  incrementCounter(key: string, window: number) {
+    return this.update((snapshot) => {
+      const now = Date.now();
+      Object.entries(snapshot.counters).forEach(([name, counter]) => {
+        if (counter.expiresAt <= now) delete snapshot.counters[name];
+      });
+      const counter = (snapshot.counters[key] ??= {
+        count: 0,
+        expiresAt: now + window,
+      });
+      counter.count += 1;
+      return counter.count;
+    });
+  }
+
+  async listNearby(group: string) {
+    await this.queue;
+    const snapshot = await this.read();
+    if (isIdle(snapshot.nearbyExpiresAt[group], Date.now())) return [];
+    return Object.values(snapshot.nearby[group] ?? {});
+  }
+
+  upsertNearby(group: string, record: NearbyRecord) {
+    return this.update((snapshot) => {
+      (snapshot.nearby[group] ??= {})[record.peerId] = record;
+      snapshot.nearbyExpiresAt[group] = Date.now() + ROOM_IDLE_TIMEOUT;
+    });
+  }
+
+  removeNearby(group: string, peerId: string) {
+    return this.update((snapshot) => {
+      const records = snapshot.nearby[group];
+      if (!records) return;
+      delete records[peerId];
+      if (Object.keys(records).length === 0) {
+        delete snapshot.nearby[group];
+        delete snapshot.nearbyExpiresAt[group];
+      }
+    });
+  }
+}
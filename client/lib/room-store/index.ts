@@ -0,0 +1,63 @@
+import { env } from '@/env/server';
+
+import { FileRoomStore } from './file';
+import { MemoryRoomStore } from './memory';
+import { RedisRoomStore } from './redis';
+import type { RoomStore } from './types';
+
+export * from './events';
+export * from './types';
+
+// Server-side only: where the peers API keeps room membership.
+
+declare global {
+  var __roomStore: RoomStore | undefined;
+}
+
+const createRoomStore = (): RoomStore => {
+  switch (env.ROOM_STORE) {
+    case 'file':
+      return new FileRoomStore(env.ROOM_STORE_FILE);
+    case 'redis':
+      return new RedisRoomStore(env.REDIS_URL!);
+    default:
+      return new MemoryRoomStore();
+  }
+};
+
+/** Returns the configured store, shared across hot reloads like the old Map. */
+export function getRoomStore(): RoomStore {
+  return (globalThis.__roomStore ??= createRoomStore());
+}
+
+/** Milliseconds a peer stays listed after its last heartbeat. */
+export const PEER_TTL = env.PEER_TTL_SECONDS * 1000;
+
+/** Drops peers whose heartbeats stopped and the room once it is empty. */
+export async function pruneRoom(store: RoomStore, roomId: string) {
+  const peers = await store.listPeers(roomId);
+  if (peers.length === 0) return peers;
+
+  const now = Date.now();
+  const stale = peers.filter((peer) => now - peer.updatedAt > PEER_TTL);
+
+  if (stale.length === peers.length) {
+    await store.deleteRoom(roomId);
+    return [];
+  }
+
+  await Promise.all(stale.map((peer) => store.removePeer(roomId, peer.peerId)));
+  return peers.filter((peer) => !stale.includes(peer));
+}
+
+/** Lists a nearby group, dropping entries whose heartbeats stopped. */
+export async function pruneNearby(store: RoomStore, group: string) {
+  const records = await store.listNearby(group);
+  const now = Date.now();
+  const stale = records.filter((record) => now - record.updatedAt > PEER_TTL);
+
+  await Promise.all(
+    stale.map((record) => store.removeNearby(group, record.peerId)),
+  );
+  return records.filter((record) => !stale.includes(record));
+}
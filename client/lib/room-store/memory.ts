@@ -0,0 +1,150 @@
+import {
+  type NearbyRecord,
+  type PeerEntry,
+  ROOM_IDLE_TIMEOUT,
+  ROOM_PASSWORD_TTL,
+  type RoomStore,
+  SHORT_CODE_TTL,
+  type ShortCodeTarget,
+} from './types';
+
+/** Process-local store. Rooms vanish on restart and are not shared between instances. */
+export class MemoryRoomStore implements RoomStore {
+  // Each expires ROOM_IDLE_TIMEOUT after its last upsert, like Redis keys
+  private rooms = new Map<
+    string,
+    { peers: Map<string, PeerEntry>; expiresAt: number }
+  >();
+  // Kept apart from the peers so a password outlives an emptied room
+  private passwords = new Map<string, { hash: string; expiresAt: number }>();
+  private codes = new Map<
+    string,
+    { target: ShortCodeTarget; expiresAt: number }
+  >();
+  private nearby = new Map<
+    string,
+    { records: Map<string, NearbyRecord>; expiresAt: number }
+  >();
+  private counters = new Map<string, { count: number; expiresAt: number }>();
+
+  /** Returns a room's peers unless it idled out. */
+  private peersOf(roomId: string) {
+    const room = this.rooms.get(roomId);
+    if (room && room.expiresAt <= Date.now()) {
+      this.rooms.delete(roomId);
+      return undefined;
+    }
+    return room?.peers;
+  }
+
+  /** Returns a nearby group's records unless it idled out. */
+  private recordsOf(group: string) {
+    const entry = this.nearby.get(group);
+    if (entry && entry.expiresAt <= Date.now()) {
+      this.nearby.delete(group);
+      return undefined;
+    }
+    return entry?.records;
+  }
+
+  async listPeers(roomId: string) {
+    return Array.from(this.peersOf(roomId)?.values() ?? []);
+  }
+
+  async upsertPeer(roomId: string, entry: PeerEntry) {
+    const now = Date.now();
+    // Idle rooms are swept as peers come in
+    this.rooms.forEach((room, id) => {
+      if (room.expiresAt <= now) this.rooms.delete(id);
+    });
+    const peers = this.rooms.get(roomId)?.peers ?? new Map();
+    peers.set(entry.peerId, entry);
+    this.rooms.set(roomId, { peers, expiresAt: now + ROOM_IDLE_TIMEOUT });
+
+    const password = this.passwords.get(roomId);
+    if (password) password.expiresAt = now + ROOM_PASSWORD_TTL;
+  }
+
+  async removePeer(roomId: string, peerId: string) {
+    const peers = this.peersOf(roomId);
+    peers?.delete(peerId);
+    return peers?.size ?? 0;
+  }
+
+  async getPasswordHash(roomId: string) {
+    const password = this.passwords.get(roomId);
+    if (password && password.expiresAt <= Date.now()) {
+      this.passwords.delete(roomId);
+      return null;
+    }
+    return password?.hash ?? null;
+  }
+
+  async setPasswordHash(roomId: string, hash: string) {
+    const now = Date.now();
+    // Lapsed passwords are swept as new ones come in
+    this.passwords.forEach((password, id) => {
+      if (password.expiresAt <= now) this.passwords.delete(id);
+    });
+    this.passwords.set(roomId, { hash, expiresAt: now + ROOM_PASSWORD_TTL });
+  }
+
+  async deleteRoom(roomId: string) {
+    this.rooms.delete(roomId);
+  }
+
+  async claimCode(code: string, target: ShortCodeTarget) {
+    if (await this.resolveCode(code)) return false;
+    this.codes.set(code, { target, expiresAt: Date.now() + SHORT_CODE_TTL });
+    return true;
+  }
+
+  async resolveCode(code: string) {
+    const entry = this.codes.get(code);
+    if (entry && entry.expiresAt <= Date.now()) {
+      this.codes.delete(code);
+      return null;
+    }
+    return entry?.target ?? null;
+  }
+
+  async deleteCode(code: string) {
+    this.codes.delete(code);
+  }
+
+  async incrementCounter(key: string, window: number) {
+    const now = Date.now();
+    // Lapsed counters are swept as new ones come in
+    this.counters.forEach((counter, name) => {
+      if (counter.expiresAt <= now) this.counters.delete(name);
+    });
+    const counter = this.counters.get(key) ?? {
+      count: 0,
+      expiresAt: now + window,
+    };
+    counter.count += 1;
+    this.counters.set(key, counter);
+    return counter.count;
+  }
+
+  async listNearby(group: string) {
+    return Array.from(this.recordsOf(group)?.values() ?? []);
+  }
+
+  async upsertNearby(group: string, record: NearbyRecord) {
+    const now = Date.now();
+    // Idle groups are swept as records come in
+    this.nearby.forEach((entry, name) => {
+      if (entry.expiresAt <= now) this.nearby.delete(name);
+    });
+    const records = this.nearby.get(group)?.records ?? new Map();
+    records.set(record.peerId, record);
+    this.nearby.set(group, { records, expiresAt: now + ROOM_IDLE_TIMEOUT });
+  }
+
+  async removeNearby(group: string, peerId: string) {
+    const records = this.recordsOf(group);
+    records?.delete(peerId);
+    if (records?.size === 0) this.nearby.delete(group);
+  }
+}
@@ -0,0 +1,293 @@
+import { type Socket, createConnection } from 'node:net';
+import { connect as connectTls } from 'node:tls';
+
+import {
+  type NearbyRecord,
+  type PeerEntry,
+  ROOM_IDLE_TIMEOUT,
+  ROOM_PASSWORD_TTL,
+  type RoomStore,
+  SHORT_CODE_TTL,
+  type ShortCodeTarget,
+} from './types';
+
+type Reply = string | number | null | Reply[];
+
+type Pending = {
+  resolve: (reply: Reply) => void;
+  reject: (error: Error) => void;
+};
+
+const KEY_PREFIX = 'peershare:room:';
+const CODE_KEY_PREFIX = 'peershare:code:';
+const NEARBY_KEY_PREFIX = 'peershare:nearby:';
+const COUNTER_KEY_PREFIX = 'peershare:counter:';
+
+const encodeCommand = (args: (string | number)[]) =>
+  `*${args.length}\r\n` +
+  args
+    .map((arg) => {
+      const value = String(arg);
+      return `$${Buffer.byteLength(value)}\r\n${value}\r\n`;
+    })
+    .join('');
+
+/**
+ * Parses one RESP2 reply starting at `offset`. Returns null when the buffer
+ * does not hold a complete reply yet.
+ */
+const parseReply = (
+  buffer: Buffer,
+  offset: number,
+): { reply: Reply | Error; next: number } | null => {
+  const lineEnd = buffer.indexOf('\r\n', offset);
+  if (lineEnd === -1) return null;
+
+  const type = String.fromCharCode(buffer[offset]);
+  const line = buffer.toString('utf8', offset + 1, lineEnd);
+  const next = lineEnd + 2;
+
+  switch (type) {
+    case '+':
+      return { reply: line, next };
+    case '-':
+      return { reply: new Error(line), next };
+    case ':':
+      return { reply: Number(line), next };
+    case '$': {
+      const length = Number(line);
+      if (length === -1) return { reply: null, next };
+      if (buffer.length < next + length + 2) return null;
+      return {
+        reply: buffer.toString('utf8', next, next + length),
+        next: next + length + 2,
+      };
+    }
+    case '*': {
+      const count = Number(line);
+      if (count === -1) return { reply: null, next };
+      const items: Reply[] = [];
+      let cursor = next;
+      for (let i = 0; i < count; i++) {
+        const item = parseReply(buffer, cursor);
+        if (!item) return null;
+        if (item.reply instanceof Error) throw item.reply;
+        items.push(item.reply);
+        cursor = item.next;
+      }
+      return { reply: items, next: cursor };
+    }
+    default:
+      throw new Error(`Unexpected Redis reply type "${type}"`);
+  }
+};
+
+/** Minimal pipelined RESP client; enough for the handful of commands we use. */
+class RedisClient {
+  private socket: Socket | null = null;
+  private pending: Pending[] = [];
+  private buffer = Buffer.alloc(0);
+
+  constructor(private url: URL) {}
+
+  private connect() {
+    const options = {
+      host: this.url.hostname || '127.0.0.1',
+      port: Number(this.url.port) || 6379,
+    };
+    const socket =
+      this.url.protocol === 'rediss:'
+        ? connectTls({ ...options, servername: options.host })
+        : createConnection(options);
+
+    socket.on('data', (data) => {
+      this.buffer = Buffer.concat([this.buffer, data]);
+      let offset = 0;
+      try {
+        for (let parsed; (parsed = parseReply(this.buffer, offset)); ) {
+          offset = parsed.next;
+          const waiter = this.pending.shift();
+          if (parsed.reply instanceof Error) waiter?.reject(parsed.reply);
+          else waiter?.resolve(parsed.reply);
+        }
+      } catch (error) {
+        socket.destroy(error as Error);
+        return;
+      }
+      this.buffer = this.buffer.subarray(offset);
+    });
+
+    const fail = (error?: Error) => {
+      if (this.socket === socket) this.socket = null;
+      this.buffer = Buffer.alloc(0);
+      const waiters = this.pending.splice(0);
+      waiters.forEach((waiter) =>
+        waiter.reject(error ?? new Error('Redis connection closed')),
+      );
+    };
+    socket.on('error', fail);
+    socket.on('close', () => fail());
+
+    this.socket = socket;
+
+    // Queued ahead of any caller's command, so their replies come first
+    const password = decodeURIComponent(this.url.password);
+    if (password) {
+      const username = decodeURIComponent(this.url.username);
+      void this.send(
+        username ? ['AUTH', username, password] : ['AUTH', password],
+      ).catch(() => {});
+    }
+    const db = this.url.pathname.slice(1);
+    if (db) void this.send(['SELECT', db]).catch(() => {});
+
+    return socket;
+  }
+
+  private send(args: (string | number)[]) {
+    return new Promise<Reply>((resolve, reject) => {
+      this.pending.push({ resolve, reject });
+      this.socket!.write(encodeCommand(args));
+    });
+  }
+
+  command(...args: (string | number)[]): Promise<Reply> {
+    if (!this.socket) this.connect();
+    return this.send(args);
+  }
+}
+
+/**
+ * Stores rooms in Redis or any server speaking its protocol, so several
+ * instances share one registry. Keys expire on their own when a room idles.
+ */
+export class RedisRoomStore implements RoomStore {
+  private client: RedisClient;
+
+  constructor(url: string) {
+    this.client = new RedisClient(new URL(url));
+  }
+
+  private peersKey = (roomId: string) => `${KEY_PREFIX}${roomId}:peers`;
+  private passwordKey = (roomId: string) => `${KEY_PREFIX}${roomId}:password`;
+
+  private async touch(roomId: string) {
+    await Promise.all([
+      this.client.command('PEXPIRE', this.peersKey(roomId), ROOM_IDLE_TIMEOUT),
+      this.client.command(
+        'PEXPIRE',
+        this.passwordKey(roomId),
+        ROOM_PASSWORD_TTL,
+      ),
+    ]);
+  }
+
+  async listPeers(roomId: string) {
+    const fields = (await this.client.command(
+      'HGETALL',
+      this.peersKey(roomId),
+    )) as string[];
+    const peers: PeerEntry[] = [];
+    for (let i = 1; i < fields.length; i += 2) {
+      peers.push(JSON.parse(fields[i]) as PeerEntry);
+    }
+    return peers;
+  }
+
+  async upsertPeer(roomId: string, entry: PeerEntry) {
+    await this.client.command(
+      'HSET',
+      this.peersKey(roomId),
+      entry.peerId,
+      JSON.stringify(entry),
+    );
+    await this.touch(roomId);
+  }
+
+  async removePeer(roomId: string, peerId: string) {
+    await this.client.command('HDEL', this.peersKey(roomId), peerId);
+    return (await this.client.command('HLEN', this.peersKey(roomId))) as number;
+  }
+
+  async getPasswordHash(roomId: string) {
+    return (await this.client.command('GET', this.passwordKey(roomId))) as
+      | string
+      | null;
+  }
+
+  async setPasswordHash(roomId: string, hash: string) {
+    await this.client.command(
+      'SET',
+      this.passwordKey(roomId),
+      hash,
+      'PX',
+      ROOM_PASSWORD_TTL,
+    );
+  }
+
+  async deleteRoom(roomId: string) {
+    // The password key keeps its own expiry
+    await this.client.command('DEL', this.peersKey(roomId));
+  }
+
+  async claimCode(code: string, target: ShortCodeTarget) {
+    const reply = await this.client.command(
+      'SET',
+      `${CODE_KEY_PREFIX}${code}`,
+      JSON.stringify(target),
+      'NX',
+      'PX',
+      SHORT_CODE_TTL,
+    );
+    return reply === 'OK';
+  }
+
+  async resolveCode(code: string) {
+    const value = (await this.client.command(
+      'GET',
+      `${CODE_KEY_PREFIX}${code}`,
+    )) as string | null;
+    return value ? (JSON.parse(value) as ShortCodeTarget) : null;
+  }
+
+  async deleteCode(code: string) {
+    await this.client.command('DEL', `${CODE_KEY_PREFIX}${code}`);
+  }
+
+  async incrementCounter(key: string, window: number) {
+    const counterKey = `${COUNTER_KEY_PREFIX}${key}`;
+    const count = (await this.client.command('INCR', counterKey)) as number;
+    // The first hit opens the window; later ones leave its end alone
+    if (count === 1) {
+      await this.client.command('PEXPIRE', counterKey, window);
+    }
+    return count;
+  }
+
+  async listNearby(group: string) {
+    const fields = (await this.client.command(
+      'HGETALL',
+      `${NEARBY_KEY_PREFIX}${group}`,
+    )) as string[];
+    const records: NearbyRecord[] = [];
+    for (let i = 1; i < fields.length; i += 2) {
+      records.push(JSON.parse(fields[i]) as NearbyRecord);
+    }
+    return records;
+  }
+
+  async upsertNearby(group: string, record: NearbyRecord) {
+    const key = `${NEARBY_KEY_PREFIX}${group}`;
+    await this.client.command(
+      'HSET',
+      key,
+      record.peerId,
+      JSON.stringify(record),
+    );
+    await this.client.command('PEXPIRE', key, ROOM_IDLE_TIMEOUT);
+  }
+
+  async removeNearby(group: string, peerId: string) {
+    await this.client.command('HDEL', `${NEARBY_KEY_PREFIX}${group}`, peerId);
+  }
+}
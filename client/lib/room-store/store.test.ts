@@ -0,0 +1,310 @@
+import { mkdtemp, rm } from 'node:fs/promises';
+import { type Server, type Socket, createServer } from 'node:net';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+  afterAll,
+  afterEach,
+  beforeAll,
+  beforeEach,
+  describe,
+  expect,
+  it,
+  vi,
+} from 'vitest';
+
+import { FileRoomStore } from './file';
+import { MemoryRoomStore } from './memory';
+import { RedisRoomStore } from './redis';
+import {
+  type NearbyRecord,
+  ROOM_IDLE_TIMEOUT,
+  ROOM_PASSWORD_TTL,
+  type RoomStore,
+  SHORT_CODE_TTL,
+  type ShortCodeTarget,
+} from './types';
+
+type Entry = { value: string | Map<string, string>; expiresAt?: number };
+
+/**
+ * Speaks just enough RESP2 for RedisRoomStore, keeping keys in memory and
+ * expiring them by Date.now() so fake timers apply.
+ */
+class FakeRedis {
+  private server: Server = createServer((socket) => this.serve(socket));
+  private sockets = new Set<Socket>();
+  private keys = new Map<string, Entry>();
+  url = '';
+
+  async start() {
+    await new Promise<void>((resolve) =>
+      this.server.listen(0, '127.0.0.1', resolve),
+    );
+    const { port } = this.server.address() as { port: number };
+    this.url = `redis://127.0.0.1:${port}`;
+  }
+
+  async stop() {
+    this.sockets.forEach((socket) => socket.destroy());
+    await new Promise((resolve) => this.server.close(resolve));
+  }
+
+  clear() {
+    this.keys.clear();
+  }
+
+  private serve(socket: Socket) {
+    this.sockets.add(socket);
+    socket.on('close', () => this.sockets.delete(socket));
+
+    let buffer = Buffer.alloc(0);
+    socket.on('data', (data) => {
+      buffer = Buffer.concat([buffer, data]);
+      for (let parsed; (parsed = this.parse(buffer)); ) {
+        buffer = buffer.subarray(parsed.next);
+        socket.write(this.run(parsed.args));
+      }
+    });
+  }
+
+  /** Reads one command, an array of bulk strings, or null if it is partial. */
+  private parse(buffer: Buffer) {
+    const header = buffer.indexOf('\r\n');
+    if (header === -1) return null;
+    const count = Number(buffer.toString('utf8', 1, header));
+    const args: string[] = [];
+    let cursor = header + 2;
+    for (let i = 0; i < count; i++) {
+      const lineEnd = buffer.indexOf('\r\n', cursor);
+      if (lineEnd === -1) return null;
+      const length = Number(buffer.toString('utf8', cursor + 1, lineEnd));
+      const start = lineEnd + 2;
+      if (buffer.length < start + length + 2) return null;
+      args.push(buffer.toString('utf8', start, start + length));
+      cursor = start + length + 2;
+    }
+    return { args, next: cursor };
+  }
+
+  private get(key: string) {
+    const entry = this.keys.get(key);
+    if (entry?.expiresAt !== undefined && entry.expiresAt <= Date.now()) {
+      this.keys.delete(key);
+      return undefined;
+    }
+    return entry;
+  }
+
+  private hash(key: string) {
+    const value = this.get(key)?.value;
+    return value instanceof Map ? value : new Map<string, string>();
+  }
+
+  private run([name, key, ...rest]: string[]) {
+    const bulk = (value?: string) =>
+      value === undefined
+        ? '$-1\r\n'
+        : `$${Buffer.byteLength(value)}\r\n${value}\r\n`;
+    const integer = (value: number) => `:${value}\r\n`;
+
+    switch (name.toUpperCase()) {
+      case 'HSET': {
+        const entry = this.get(key) ?? { value: new Map<string, string>() };
+        const fields = entry.value as Map<string, string>;
+        const added = fields.has(rest[0]) ? 0 : 1;
+        fields.set(rest[0], rest[1]);
+        this.keys.set(key, entry);
+        return integer(added);
+      }
+      case 'HGETALL': {
+        const fields = Array.from(this.hash(key)).flat();
+        return `*${fields.length}\r\n${fields.map((field) => bulk(field)).join('')}`;
+      }
+      case 'HDEL': {
+        const fields = this.hash(key);
+        const removed = fields.delete(rest[0]) ? 1 : 0;
+        if (fields.size === 0) this.keys.delete(key);
+        return integer(removed);
+      }
+      case 'HLEN':
+        return integer(this.hash(key).size);
+      case 'GET':
+        return bulk(this.get(key)?.value as string | undefined);
+      case 'SET': {
+        const options = rest.slice(1).map((option) => option.toUpperCase());
+        if (options.includes('NX') && this.get(key)) return bulk();
+        const px = options.indexOf('PX');
+        this.keys.set(key, {
+          value: rest[0],
+          expiresAt: px === -1 ? undefined : Date.now() + Number(rest[px + 2]),
+        });
+        return '+OK\r\n';
+      }
+      case 'DEL':
+        return integer(this.keys.delete(key) ? 1 : 0);
+      case 'INCR': {
+        const entry = this.get(key) ?? { value: '0' };
+        entry.value = String(Number(entry.value) + 1);
+        this.keys.set(key, entry);
+        return integer(Number(entry.value));
+      }
+      case 'PEXPIRE': {
+        const entry = this.get(key);
+        if (entry) entry.expiresAt = Date.now() + Number(rest[0]);
+        return integer(entry ? 1 : 0);
+      }
+      default:
+        return `-ERR unknown command '${name}'\r\n`;
+    }
+  }
+}
+
+const redis = new FakeRedis();
+let directory = '';
+let files = 0;
+
+const STORES: [string, () => RoomStore][] = [
+  ['memory', () => new MemoryRoomStore()],
+  ['file', () => new FileRoomStore(join(directory, `rooms-${files++}.json`))],
+  ['redis', () => new RedisRoomStore(redis.url)],
+];
+
+const TARGET: ShortCodeTarget = {
+  kind: 'room',
+  id: 'room-1',
+  sealed: 'sealed',
+  verifierHash: 'hash',
+};
+
+const peer = (peerId: string) => ({
+  peerId,
+  name: peerId.toUpperCase(),
+  updatedAt: Date.now(),
+});
+
+const nearby = (peerId: string): NearbyRecord => ({
+  ...peer(peerId),
+  kind: 'peer',
+  ownerTokenHash: 'owner',
+});
+
+beforeAll(async () => {
+  directory = await mkdtemp(join(tmpdir(), 'room-store-'));
+  await redis.start();
+});
+
+afterAll(async () => {
+  await redis.stop();
+  await rm(directory, { recursive: true, force: true });
+});
+
+describe.each(STORES)('%s store', (_, createStore) => {
+  let store: RoomStore;
+  const later = (ms: number) => vi.setSystemTime(Date.now() + ms);
+
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    redis.clear();
+    store = createStore();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('lists, updates and removes peers', async () => {
+    await store.upsertPeer('room', peer('a'));
+    await store.upsertPeer('room', peer('b'));
+    await store.upsertPeer('room', { ...peer('a'), name: 'Renamed' });
+
+    const peers = await store.listPeers('room');
+    expect(peers.map((entry) => entry.name).sort()).toEqual(['B', 'Renamed']);
+    expect(await store.removePeer('room', 'a')).toBe(1);
+    expect(await store.listPeers('other')).toEqual([]);
+  });
+
+  it('forgets a room nobody touched for the idle timeout', async () => {
+    await store.upsertPeer('room', peer('a'));
+    later(ROOM_IDLE_TIMEOUT - 1000);
+    await store.upsertPeer('room', peer('b'));
+    later(ROOM_IDLE_TIMEOUT - 1000);
+    expect(await store.listPeers('room')).toHaveLength(2);
+
+    later(2000);
+    expect(await store.listPeers('room')).toEqual([]);
+  });
+
+  it('keeps the password past deleteRoom until it lapses', async () => {
+    await store.setPasswordHash('room', 'hash');
+    await store.upsertPeer('room', peer('a'));
+    await store.deleteRoom('room');
+
+    expect(await store.listPeers('room')).toEqual([]);
+    expect(await store.getPasswordHash('room')).toBe('hash');
+    later(ROOM_PASSWORD_TTL + 1000);
+    expect(await store.getPasswordHash('room')).toBeNull();
+  });
+
+  it('keeps the password while the room is joined', async () => {
+    await store.setPasswordHash('room', 'hash');
+    later(ROOM_PASSWORD_TTL - 1000);
+    await store.upsertPeer('room', peer('a'));
+    later(ROOM_PASSWORD_TTL - 1000);
+    expect(await store.getPasswordHash('room')).toBe('hash');
+  });
+
+  it('keeps the password of a room that idled out', async () => {
+    await store.setPasswordHash('room', 'hash');
+    await store.upsertPeer('room', peer('a'));
+    later(ROOM_IDLE_TIMEOUT + 1000);
+    await store.upsertPeer('other', peer('b'));
+
+    expect(await store.listPeers('room')).toEqual([]);
+    expect(await store.getPasswordHash('room')).toBe('hash');
+  });
+
+  it('claims a code once until it expires', async () => {
+    expect(await store.claimCode('code', TARGET)).toBe(true);
+    expect(await store.claimCode('code', TARGET)).toBe(false);
+    expect(await store.resolveCode('code')).toEqual(TARGET);
+
+    later(SHORT_CODE_TTL + 1000);
+    expect(await store.resolveCode('code')).toBeNull();
+    expect(await store.claimCode('code', TARGET)).toBe(true);
+  });
+
+  it('deletes a code', async () => {
+    await store.claimCode('code', TARGET);
+    await store.deleteCode('code');
+    expect(await store.resolveCode('code')).toBeNull();
+  });
+
+  it('counts hits until the window ends', async () => {
+    expect(await store.incrementCounter('key', 60_000)).toBe(1);
+    later(30_000);
+    expect(await store.incrementCounter('key', 60_000)).toBe(2);
+    expect(await store.incrementCounter('other', 60_000)).toBe(1);
+
+    later(31_000);
+    expect(await store.incrementCounter('key', 60_000)).toBe(1);
+  });
+
+  it('lists, updates and removes nearby records', async () => {
+    await store.upsertNearby('group', nearby('a'));
+    await store.upsertNearby('group', nearby('b'));
+    await store.upsertNearby('group', { ...nearby('a'), name: 'Renamed' });
+    await store.removeNearby('group', 'b');
+
+    expect(await store.listNearby('group')).toEqual([
+      { ...nearby('a'), name: 'Renamed' },
+    ]);
+    expect(await store.listNearby('other')).toEqual([]);
+  });
+
+  it('forgets a nearby group nobody touched for the idle timeout', async () => {
+    await store.upsertNearby('group', nearby('a'));
+    later(ROOM_IDLE_TIMEOUT + 1000);
+    expect(await store.listNearby('group')).toEqual([]);
+  });
+});
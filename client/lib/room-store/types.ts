@@ -0,0 +1,65 @@
+export type PeerEntry = {
+  peerId: string;
+  name: string;
+  updatedAt: number;
+};
+
+/** A sender or room member listed to the devices on its network. */
+export type NearbyRecord = {
+  peerId: string;
+  name: string;
+  kind: 'peer' | 'room';
+  // Only whoever listed the entry can refresh or withdraw it
+  ownerTokenHash: string;
+  updatedAt: number;
+};
+
+/** What a short code points at. `sealed` is opaque to the server. */
+export type ShortCodeTarget = {
+  kind: 'peer' | 'room';
+  id: string;
+  // The link's key and invite, encrypted with words only the code holder has
+  sealed: string;
+  // Hash of the verifier derived from those words; lookups must match it
+  verifierHash: string;
+};
+
+/** Storage backend for the room registry. Every method is async so any store fits. */
+export interface RoomStore {
+  listPeers(roomId: string): Promise<PeerEntry[]>;
+  upsertPeer(roomId: string, entry: PeerEntry): Promise<void>;
+  /** Removes a peer and returns how many are left in the room. */
+  removePeer(roomId: string, peerId: string): Promise<number>;
+  /**
+   * Returns the room's password hash. It outlives the room's peers and only
+   * lapses ROOM_PASSWORD_TTL after the room was last joined or refreshed.
+   */
+  getPasswordHash(roomId: string): Promise<string | null>;
+  setPasswordHash(roomId: string, hash: string): Promise<void>;
+  /** Forgets a room's peers; its password hash stays until it lapses. */
+  deleteRoom(roomId: string): Promise<void>;
+  /** Stores a short code unless it is taken; returns whether it was free. */
+  claimCode(code: string, target: ShortCodeTarget): Promise<boolean>;
+  /** Looks up a short code, or null once it expired. */
+  resolveCode(code: string): Promise<ShortCodeTarget | null>;
+  deleteCode(code: string): Promise<void>;
+  /**
+   * Counts one hit against `key` and returns the hits so far. The count
+   * starts over `window` milliseconds after the first hit.
+   */
+  incrementCounter(key: string, window: number): Promise<number>;
+  listNearby(group: string): Promise<NearbyRecord[]>;
+  upsertNearby(group: string, record: NearbyRecord): Promise<void>;
+  removeNearby(group: string, peerId: string): Promise<void>;
+}
+
+// Stored rooms nobody has touched for this long expire on their own
+export const ROOM_IDLE_TIMEOUT = 1000 * 60 * 60; // 1 hour
+
+// A protected room keeps its password this long after its last activity,
+// longer than the 24-hour member and invite tokens issued for it, so none of
+// them is still valid once the room could be reopened without one
+export const ROOM_PASSWORD_TTL = 1000 * 60 * 60 * 25; // 25 hours
+
+// Short codes are meant to be read out and typed in right away
+export const SHORT_CODE_TTL = 1000 * 60 * 60; // 1 hour
@@ -0,0 +1,155 @@
+// Files streamed at the same time; the rest wait in the queue
+export const DEFAULT_SEND_CONCURRENCY = 2;
+// Queued files offered ahead of a free slot. Waiting on answers holds no
+// slot, so an unanswered offer never stalls the streams behind it.
+export const MAX_OPEN_OFFERS = 8;
+
+export type QueueState = 'queued' | 'offered' | 'sending' | 'done' | 'failed';
+
+// A file waiting to be offered, waiting for a parallel send slot, or holding one
+export type QueuedSend<T> = {
+  id: string;
+  file: File;
+  options: T;
+  state: QueueState;
+};
+
+/**
+ * Offers and streams one file. `waitForSlot` resolves once the file may
+ * start streaming; resolves to whether the send went through.
+ */
+export type SendJob<T> = (
+  file: File,
+  options: T,
+  waitForSlot: () => Promise<void>,
+) => Promise<boolean>;
+
+/**
+ * Outgoing files in the order the user arranged them. Files are offered
+ * ahead of time, but only `concurrency` of them stream at once.
+ */
+export class SendQueue<T> {
+  private items: QueuedSend<T>[] = [];
+  // Accepted entries waiting for a send slot, keyed by queue ID
+  private slotWaiters = new Map<string, () => void>();
+  private lastId = 0;
+  private concurrency = DEFAULT_SEND_CONCURRENCY;
+
+  constructor(
+    private readonly send: SendJob<T>,
+    private readonly onChange: (items: QueuedSend<T>[]) => void,
+  ) {}
+
+  enqueue(sends: { file: File; options: T }[]) {
+    this.update((items) => [
+      ...items,
+      ...sends.map(({ file, options }) => ({
+        id: String((this.lastId += 1)),
+        file,
+        options,
+        state: 'queued' as const,
+      })),
+    ]);
+    this.pump();
+  }
+
+  /** Drops a dragged entry in front of another. */
+  move(id: string, beforeId: string) {
+    if (id === beforeId) return;
+    this.update((items) => {
+      const item = items.find((q) => q.id === id);
+      if (!item) return items;
+      const rest = items.filter((q) => q !== item);
+      const index = rest.findIndex((q) => q.id === beforeId);
+      rest.splice(index < 0 ? rest.length : index, 0, item);
+      return rest;
+    });
+  }
+
+  remove(id: string) {
+    this.update((items) => items.filter((q) => q.id !== id));
+  }
+
+  clearFinished() {
+    this.update((items) =>
+      items.filter((item) => item.state !== 'done' && item.state !== 'failed'),
+    );
+  }
+
+  setConcurrency(concurrency: number) {
+    this.concurrency = concurrency;
+    this.pump();
+  }
+
+  /** Empties the queue. Files waiting for a slot get one and fail right away. */
+  reset() {
+    this.update(() => []);
+    this.slotWaiters.forEach((grant) => grant());
+    this.slotWaiters.clear();
+  }
+
+  private update(change: (items: QueuedSend<T>[]) => QueuedSend<T>[]) {
+    this.items = change(this.items);
+    this.onChange(this.items);
+  }
+
+  private setState(id: string, state: QueueState) {
+    this.update((items) =>
+      items.map((item) => (item.id === id ? { ...item, state } : item)),
+    );
+  }
+
+  /**
+   * Hands free send slots to accepted files in queue order, then offers
+   * queued files from the top until MAX_OPEN_OFFERS are out.
+   */
+  private pump() {
+    const waiters = this.slotWaiters;
+    let streaming = this.items.filter(
+      (item) => item.state === 'sending',
+    ).length;
+    const granted = this.items.filter((item) => {
+      if (!waiters.has(item.id) || streaming >= this.concurrency) return false;
+      streaming += 1;
+      return true;
+    });
+
+    let offering = this.items.filter((item) => item.state === 'offered').length;
+    const starting = this.items.filter((item) => {
+      if (item.state !== 'queued' || offering >= MAX_OPEN_OFFERS) return false;
+      offering += 1;
+      return true;
+    });
+    if (granted.length === 0 && starting.length === 0) return;
+
+    this.update((items) =>
+      items.map((item) =>
+        granted.includes(item)
+          ? { ...item, state: 'sending' }
+          : starting.includes(item)
+            ? { ...item, state: 'offered' }
+            : item,
+      ),
+    );
+    granted.forEach(({ id }) => {
+      waiters.get(id)?.();
+      waiters.delete(id);
+    });
+    starting.forEach(({ id, file, options }) => {
+      const waitForSlot = () =>
+        new Promise<void>((resolve) => {
+          waiters.set(id, resolve);
+          this.pump();
+        });
+      this.send(file, options, waitForSlot)
+        .catch((error) => {
+          console.error('Send failed:', error);
+          return false;
+        })
+        .then((sent) => {
+          this.setState(id, sent ? 'done' : 'failed');
+          this.pump();
+        });
+    });
+  }
+}
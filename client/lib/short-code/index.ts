@@ -0,0 +1,380 @@
+import {
+  derivePassphraseKeys,
+  openWithPassphrase,
+  sealWithPassphrase,
+} from '@/lib/encryption';
+
+// Short codes look like `tiger-maple-ocean-lemon`. The first two words are what
+// the server knows the code by; the last two encrypt the link's key and never
+// leave the browser. The server only hands the sealed key to whoever shows a
+// verifier derived from those words, and makes whoever keeps trying wait.
+// Nobody but the server can try words against the seal, and codes expire
+// within the hour.
+
+// One byte picks one word, so every word is equally likely
+const WORDS = [
+  'acid',
+  'acorn',
+  'actor',
+  'adobe',
+  'agent',
+  'alarm',
+  'album',
+  'alley',
+  'amber',
+  'angle',
+  'apple',
+  'apron',
+  'arena',
+  'arrow',
+  'aspen',
+  'atlas',
+  'attic',
+  'award',
+  'bacon',
+  'badge',
+  'bagel',
+  'baker',
+  'bamboo',
+  'banjo',
+  'barn',
+  'basil',
+  'beach',
+  'beard',
+  'bench',
+  'berry',
+  'bison',
+  'blade',
+  'blaze',
+  'bloom',
+  'board',
+  'bonus',
+  'boots',
+  'brave',
+  'bread',
+  'brick',
+  'bridge',
+  'broom',
+  'brush',
+  'cabin',
+  'cable',
+  'cactus',
+  'camel',
+  'candy',
+  'canoe',
+  'cargo',
+  'carrot',
+  'castle',
+  'cedar',
+  'chalk',
+  'charm',
+  'cherry',
+  'chess',
+  'chief',
+  'cider',
+  'cliff',
+  'clock',
+  'cloud',
+  'clover',
+  'coast',
+  'cobra',
+  'cocoa',
+  'comet',
+  'coral',
+  'couch',
+  'crane',
+  'crown',
+  'curry',
+  'daisy',
+  'dance',
+  'delta',
+  'denim',
+  'desk',
+  'diary',
+  'diver',
+  'dock',
+  'dragon',
+  'dream',
+  'drum',
+  'eagle',
+  'easel',
+  'echo',
+  'elbow',
+  'elder',
+  'ember',
+  'engine',
+  'falcon',
+  'fancy',
+  'feast',
+  'fern',
+  'ferry',
+  'fiber',
+  'field',
+  'flame',
+  'flint',
+  'flute',
+  'focus',
+  'forest',
+  'fossil',
+  'fox',
+  'frost',
+  'fudge',
+  'gecko',
+  'ghost',
+  'giant',
+  'ginger',
+  'glass',
+  'globe',
+  'glove',
+  'goose',
+  'grape',
+  'gravy',
+  'guitar',
+  'hammer',
+  'harbor',
+  'hazel',
+  'heron',
+  'hiker',
+  'honey',
+  'hotel',
+  'husky',
+  'igloo',
+  'iris',
+  'island',
+  'ivory',
+  'jacket',
+  'jaguar',
+  'jelly',
+  'jewel',
+  'judge',
+  'juice',
+  'kayak',
+  'kettle',
+  'kiwi',
+  'koala',
+  'ladder',
+  'lake',
+  'lemon',
+  'lily',
+  'linen',
+  'llama',
+  'lobby',
+  'lotus',
+  'lunar',
+  'magnet',
+  'mango',
+  'maple',
+  'marble',
+  'meadow',
+  'melon',
+  'metal',
+  'mint',
+  'mocha',
+  'moose',
+  'motor',
+  'mural',
+  'navy',
+  'nectar',
+  'needle',
+  'noble',
+  'noodle',
+  'novel',
+  'oasis',
+  'ocean',
+  'olive',
+  'onion',
+  'opera',
+  'orbit',
+  'otter',
+  'owl',
+  'paddle',
+  'panda',
+  'paper',
+  'parade',
+  'peach',
+  'pearl',
+  'pepper',
+  'piano',
+  'pilot',
+  'pixel',
+  'plaza',
+  'plum',
+  'polar',
+  'pony',
+  'poppy',
+  'prism',
+  'pulse',
+  'quail',
+  'quartz',
+  'quest',
+  'quilt',
+  'radar',
+  'radio',
+  'raven',
+  'relay',
+  'ribbon',
+  'river',
+  'robin',
+  'rocket',
+  'rose',
+  'ruby',
+  'saddle',
+  'salad',
+  'salmon',
+  'sandal',
+  'satin',
+  'scarf',
+  'shell',
+  'silver',
+  'sketch',
+  'sloth',
+  'smoke',
+  'snail',
+  'solar',
+  'spice',
+  'spoon',
+  'squid',
+  'stamp',
+  'steam',
+  'stone',
+  'storm',
+  'sugar',
+  'summit',
+  'swan',
+  'table',
+  'tango',
+  'tiger',
+  'timber',
+  'toast',
+  'topaz',
+  'torch',
+  'tower',
+  'tulip',
+  'tundra',
+  'turtle',
+  'valley',
+  'velvet',
+  'violet',
+  'viper',
+  'wafer',
+  'walnut',
+  'walrus',
+  'water',
+  'whale',
+  'willow',
+  'window',
+  'winter',
+  'wizard',
+  'yacht',
+  'yogurt',
+  'zebra',
+  'zinc',
+];
+
+const LOOKUP_WORDS = 2;
+const PASSPHRASE_WORDS = 2;
+// Fresh lookup words to try when the ones we picked are already taken
+const CLAIM_ATTEMPTS = 3;
+
+export type ShortCodeKind = 'peer' | 'room';
+
+const pathFor = (kind: ShortCodeKind, id: string) =>
+  kind === 'room' ? `/room/${id}` : `/receive/${id}`;
+
+const saltFor = (lookup: string) => `short-code:${lookup}`;
+
+const randomWords = (count: number) =>
+  Array.from(
+    crypto.getRandomValues(new Uint8Array(count)),
+    (byte) => WORDS[byte],
+  ).join('-');
+
+/** Splits what someone typed into the server's lookup words and the passphrase. */
+export function parseShortCode(
+  input: string,
+): { lookup: string; passphrase: string } | null {
+  const words = input
+    .trim()
+    .toLowerCase()
+    .split(/[\s-]+/)
+    .filter(Boolean);
+  if (
+    words.length !== LOOKUP_WORDS + PASSPHRASE_WORDS ||
+    !words.every((word) => WORDS.includes(word))
+  ) {
+    return null;
+  }
+  return {
+    lookup: words.slice(0, LOOKUP_WORDS).join('-'),
+    passphrase: words.slice(LOOKUP_WORDS).join('-'),
+  };
+}
+
+/**
+ * Registers a short code for a link. `secrets` is the part of the link after
+ * the path, e.g. `?invite=...#key=...`; only its sealed form reaches the server.
+ */
+export async function createShortCode(
+  kind: ShortCodeKind,
+  id: string,
+  secrets: string,
+): Promise<string> {
+  for (let attempt = 1; ; attempt++) {
+    const lookup = randomWords(LOOKUP_WORDS);
+    const passphrase = randomWords(PASSPHRASE_WORDS);
+    const keys = await derivePassphraseKeys(passphrase, saltFor(lookup));
+    const sealed = await sealWithPassphrase(secrets, keys);
+
+    const response = await fetch('/api/codes', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        code: lookup,
+        kind,
+        id,
+        sealed,
+        verifier: keys.verifier,
+      }),
+    });
+    if (response.status === 409 && attempt < CLAIM_ATTEMPTS) continue;
+
+    const data = (await response.json()) as { code?: string; error?: string };
+    if (!response.ok || !data.code) {
+      throw new Error(data.error || 'Could not create a short code');
+    }
+    return `${lookup}-${passphrase}`;
+  }
+}
+
+/** Turns a short code back into the full link path, key included. */
+export async function resolveShortCode(input: string): Promise<string> {
+  const parsed = parseShortCode(input);
+  if (!parsed) {
+    throw new Error('That does not look like a share code');
+  }
+
+  const keys = await derivePassphraseKeys(
+    parsed.passphrase,
+    saltFor(parsed.lookup),
+  );
+  const response = await fetch(`/api/codes/${parsed.lookup}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ verifier: keys.verifier }),
+  });
+  const data = (await response.json()) as {
+    kind?: ShortCodeKind;
+    id?: string;
+    sealed?: string;
+    error?: string;
+  };
+  if (!response.ok || !data.kind || !data.id || !data.sealed) {
+    throw new Error(data.error || 'Code not found');
+  }
+
+  const secrets = await openWithPassphrase(data.sealed, keys);
+  if (secrets === null) {
+    throw new Error('The words in this code do not match');
+  }
+  return `${pathFor(data.kind, data.id)}${secrets}`;
+}
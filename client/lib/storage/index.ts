@@ -0,0 +1,273 @@
+export type SinkKind = 'disk' | 'opfs' | 'memory';
+
+export type SinkMetadata = {
+  fileId: string;
+  name: string;
+  type: string;
+  // Folder transfers keep their layout inside the download folder
+  path?: string;
+};
+
+/**
+ * Destination for an incoming file. Chunks are queued in order and written
+ * as soon as the backing store is open, so callers never await `write`.
+ */
+export interface FileSink {
+  readonly kind: SinkKind;
+  /** Appends a chunk, or writes it at `position` for out-of-order pieces. */
+  write(chunk: ArrayBuffer, position?: number): void;
+  /** Flushes pending writes and returns a Blob that can back a download URL. */
+  close(): Promise<Blob>;
+  /** Drops a partial file, or releases the scratch copy of a finished one. */
+  abort(): Promise<void>;
+}
+
+type DirectoryPickerWindow = Window & {
+  showDirectoryPicker?: (options?: {
+    mode?: 'read' | 'readwrite';
+  }) => Promise<FileSystemDirectoryHandle>;
+};
+
+type WritableFileHandle = FileSystemFileHandle & {
+  createWritable?: () => Promise<FileSystemWritableFileStream>;
+};
+
+const SCRATCH_DIRECTORY = 'incoming';
+
+// Scratch files this page opened; anything else in the directory was left
+// behind by a tab that closed or crashed mid-transfer
+const ownScratchFiles = new Set<string>();
+let scratchSweep: Promise<void> | null = null;
+
+async function sweepStaleScratch() {
+  try {
+    const root = await navigator.storage.getDirectory();
+    const scratch = await root.getDirectoryHandle(SCRATCH_DIRECTORY, {
+      create: true,
+    });
+    const names: string[] = [];
+    for await (const name of (
+      scratch as FileSystemDirectoryHandle & {
+        keys(): AsyncIterable<string>;
+      }
+    ).keys()) {
+      if (!ownScratchFiles.has(name)) names.push(name);
+    }
+    // Files another open tab is still writing are locked and stay put
+    await Promise.all(
+      names.map((name) => scratch.removeEntry(name).catch(() => {})),
+    );
+  } catch (error) {
+    console.warn('Failed to clear old scratch files:', error);
+  }
+}
+
+export function supportsDirectoryPicker(): boolean {
+  return (
+    typeof window !== 'undefined' &&
+    typeof (window as DirectoryPickerWindow).showDirectoryPicker === 'function'
+  );
+}
+
+/** Asks the user for a download folder; must be called from a user gesture. */
+export async function pickDownloadDirectory(): Promise<FileSystemDirectoryHandle | null> {
+  const picker = (window as DirectoryPickerWindow).showDirectoryPicker;
+  if (!picker) return null;
+
+  try {
+    return await picker({ mode: 'readwrite' });
+  } catch (error) {
+    // AbortError means the user closed the picker
+    if ((error as DOMException).name !== 'AbortError') {
+      console.error('Failed to pick download folder:', error);
+    }
+    return null;
+  }
+}
+
+/**
+ * Opens the best available sink: a file in the user-chosen folder, then an
+ * OPFS scratch file, then in-memory chunks as a last resort.
+ */
+export function createFileSink(
+  metadata: SinkMetadata,
+  directory?: FileSystemDirectoryHandle | null,
+): FileSink {
+  // Once per page load, before this page has files of its own to protect
+  if (!scratchSweep && typeof navigator !== 'undefined' && navigator.storage) {
+    scratchSweep = sweepStaleScratch();
+  }
+  return new StreamingFileSink(metadata, directory ?? null);
+}
+
+class StreamingFileSink implements FileSink {
+  kind: SinkKind = 'memory';
+  private chain: Promise<void>;
+  private handle: FileSystemFileHandle | null = null;
+  private writable: FileSystemWritableFileStream | null = null;
+  private scratch: FileSystemDirectoryHandle | null = null;
+  private chunks: { position: number; data: ArrayBuffer }[] = [];
+  private nextPosition = 0;
+  private closed = false;
+
+  constructor(
+    private readonly metadata: SinkMetadata,
+    directory: FileSystemDirectoryHandle | null,
+  ) {
+    this.chain = this.open(directory);
+  }
+
+  write(chunk: ArrayBuffer, position = this.nextPosition) {
+    if (this.closed) return;
+    this.nextPosition = Math.max(
+      this.nextPosition,
+      position + chunk.byteLength,
+    );
+    this.chain = this.chain.then(async () => {
+      if (this.writable) {
+        await this.writable.write({ type: 'write', position, data: chunk });
+      } else {
+        this.chunks.push({ position, data: chunk });
+      }
+    });
+  }
+
+  async close(): Promise<Blob> {
+    this.closed = true;
+    await this.chain;
+
+    if (this.writable && this.handle) {
+      await this.writable.close();
+      this.writable = null;
+      const file = await this.handle.getFile();
+      return file.slice(0, file.size, this.metadata.type);
+    }
+
+    const blob = new Blob(
+      this.chunks
+        .sort((a, b) => a.position - b.position)
+        .map((chunk) => chunk.data),
+      { type: this.metadata.type },
+    );
+    this.chunks = [];
+    return blob;
+  }
+
+  async abort() {
+    this.closed = true;
+    await this.chain.catch(() => {});
+    this.chunks = [];
+
+    try {
+      await this.writable?.abort();
+    } catch (error) {
+      console.warn('Failed to abort sink writer:', error);
+    }
+    this.writable = null;
+
+    if (this.scratch && this.handle) {
+      await this.scratch.removeEntry(this.handle.name).catch(() => {});
+      ownScratchFiles.delete(this.handle.name);
+    }
+  }
+
+  private async open(directory: FileSystemDirectoryHandle | null) {
+    if (directory) {
+      try {
+        const handle = this.metadata.path
+          ? await createFileAtPath(directory, this.metadata.path)
+          : await createUniqueFile(directory, this.metadata.name);
+        this.writable = await openWritable(handle);
+        this.handle = handle;
+        this.kind = 'disk';
+        return;
+      } catch (error) {
+        console.warn('Falling back from download folder:', error);
+      }
+    }
+
+    try {
+      const root = await navigator.storage.getDirectory();
+      const scratch = await root.getDirectoryHandle(SCRATCH_DIRECTORY, {
+        create: true,
+      });
+      // The nonce keeps two sinks for the same file, e.g. a restarted
+      // download and the one it replaces, from sharing or removing one file
+      const name = `${sanitizeName(this.metadata.fileId)}.${crypto.randomUUID()}.part`;
+      ownScratchFiles.add(name);
+      const handle = await scratch.getFileHandle(name, { create: true });
+      this.writable = await openWritable(handle);
+      this.handle = handle;
+      this.scratch = scratch;
+      this.kind = 'opfs';
+    } catch (error) {
+      console.warn('OPFS unavailable, buffering in memory:', error);
+      this.kind = 'memory';
+    }
+  }
+}
+
+async function openWritable(handle: WritableFileHandle) {
+  if (typeof handle.createWritable !== 'function') {
+    throw new Error('createWritable is not supported');
+  }
+  return handle.createWritable();
+}
+
+/** Writes finished files into `directory`, recreating their folders. */
+export async function saveToDirectory(
+  directory: FileSystemDirectoryHandle,
+  files: { path: string; blob: Blob }[],
+) {
+  for (const { path, blob } of files) {
+    const handle = await createFileAtPath(directory, path);
+    const writable = await openWritable(handle);
+    await writable.write(blob);
+    await writable.close();
+  }
+}
+
+// Creates the folders along a relative path, then a unique file at its end
+async function createFileAtPath(
+  directory: FileSystemDirectoryHandle,
+  path: string,
+) {
+  const segments = path
+    .split('/')
+    .map(sanitizeName)
+    .filter((segment) => segment && segment !== '.' && segment !== '..');
+  const name = segments.pop() ?? 'download';
+
+  let parent = directory;
+  for (const segment of segments) {
+    parent = await parent.getDirectoryHandle(segment, { create: true });
+  }
+  return createUniqueFile(parent, name);
+}
+
+// Avoid overwriting an existing download by appending " (n)" before the extension
+async function createUniqueFile(
+  directory: FileSystemDirectoryHandle,
+  name: string,
+): Promise<FileSystemFileHandle> {
+  const safeName = sanitizeName(name) || 'download';
+  const dot = safeName.lastIndexOf('.');
+  const base = dot > 0 ? safeName.slice(0, dot) : safeName;
+  const ext = dot > 0 ? safeName.slice(dot) : '';
+
+  for (let attempt = 0; attempt < 100; attempt++) {
+    const candidate = attempt === 0 ? safeName : `${base} (${attempt})${ext}`;
+    try {
+      await directory.getFileHandle(candidate);
+    } catch {
+      return directory.getFileHandle(candidate, { create: true });
+    }
+  }
+  return directory.getFileHandle(`${base}-${Date.now()}${ext}`, {
+    create: true,
+  });
+}
+
+function sanitizeName(name: string) {
+  return name.replace(/[\\/:*?"<>|\u0000-\u001f]/g, '_').trim();
+}
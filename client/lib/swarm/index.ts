@@ -0,0 +1,284 @@
+import type { DataConnection } from 'peerjs';
+
+// Each source serves at most this many requested pieces at a time
+export const MAX_REQUESTS_PER_SOURCE = 16;
+// A request that has not been answered by then goes to another source
+export const REQUEST_TIMEOUT = 15 * 1000; // 15 seconds
+// How often timed-out requests are handed to other sources
+const SWARM_TICK = 1000;
+
+/**
+ * One bit per chunk, most significant bit first, as sent in `have` messages.
+ * Bits only change through `set`, which keeps the count current.
+ */
+export class Bitfield {
+  readonly bytes: Uint8Array;
+  private total = 0;
+
+  constructor(
+    readonly size: number,
+    bytes?: ArrayBuffer | Uint8Array,
+  ) {
+    this.bytes = new Uint8Array(Math.ceil(size / 8));
+    if (bytes) {
+      this.bytes.set(new Uint8Array(bytes).subarray(0, this.bytes.length));
+      for (let i = 0; i < size; i++) if (this.has(i)) this.total++;
+    }
+  }
+
+  static full(size: number) {
+    const bitfield = new Bitfield(size);
+    for (let i = 0; i < size; i++) bitfield.set(i);
+    return bitfield;
+  }
+
+  has(index: number) {
+    return (this.bytes[index >> 3] & (0x80 >> (index & 7))) !== 0;
+  }
+
+  set(index: number) {
+    if (this.has(index)) return;
+    this.bytes[index >> 3] |= 0x80 >> (index & 7);
+    this.total++;
+  }
+
+  count() {
+    return this.total;
+  }
+
+  isComplete() {
+    return this.total === this.size;
+  }
+}
+
+type InFlight = {
+  peerId: string;
+  requestedAt: number;
+};
+
+/**
+ * Decides which chunk to ask which source for. Pieces only a few sources
+ * hold go first, so a source leaving midway is less likely to strand them.
+ */
+export class PieceScheduler {
+  private sources = new Map<string, Bitfield>();
+  private inFlight = new Map<number, InFlight>();
+  // Missing pieces some source holds, rarest first. Sources only change when
+  // members join, leave or finish a file, so it is rebuilt rarely.
+  private order: number[] | null = null;
+  // Per source, the position in `order` before which every piece is stored,
+  // requested or not held by that source
+  private cursors = new Map<string, number>();
+
+  constructor(private readonly have: Bitfield) {}
+
+  setSource(peerId: string, bitfield: Bitfield) {
+    if (this.sources.get(peerId) === bitfield) return;
+    this.sources.set(peerId, bitfield);
+    this.order = null;
+  }
+
+  /** Forgets a source and frees the pieces it was asked for. */
+  removeSource(peerId: string) {
+    if (this.sources.delete(peerId)) this.order = null;
+    this.inFlight.forEach((request, index) => {
+      if (request.peerId === peerId) this.free(index);
+    });
+  }
+
+  /** Picks up to the source's free request slots worth of pieces, rarest first. */
+  next(peerId: string): number[] {
+    const bitfield = this.sources.get(peerId);
+    if (!bitfield) return [];
+
+    let busy = 0;
+    this.inFlight.forEach((request) => {
+      if (request.peerId === peerId) busy++;
+    });
+    const slots = MAX_REQUESTS_PER_SOURCE - busy;
+    if (slots <= 0) return [];
+
+    const order = this.rank();
+    const picked: number[] = [];
+    const now = Date.now();
+    // Every piece passed over is now stored, requested or not theirs
+    let cursor = this.cursors.get(peerId) ?? 0;
+    for (; cursor < order.length && picked.length < slots; cursor++) {
+      const index = order[cursor];
+      if (this.have.has(index) || this.inFlight.has(index)) continue;
+      if (!bitfield.has(index)) continue;
+      picked.push(index);
+      this.inFlight.set(index, { peerId, requestedAt: now });
+    }
+    this.cursors.set(peerId, cursor);
+    return picked;
+  }
+
+  /** Marks a piece as stored; returns false for duplicates. */
+  received(index: number) {
+    this.inFlight.delete(index);
+    if (this.have.has(index)) return false;
+    this.have.set(index);
+    return true;
+  }
+
+  /** Releases a piece so another source can be asked, e.g. after a bad hash. */
+  release(index: number) {
+    this.free(index);
+  }
+
+  /** Frees requests that timed out and returns the sources they were waiting on. */
+  expire(now = Date.now()) {
+    const slow = new Set<string>();
+    this.inFlight.forEach((request, index) => {
+      if (now - request.requestedAt > REQUEST_TIMEOUT) {
+        this.free(index);
+        slow.add(request.peerId);
+      }
+    });
+    return slow;
+  }
+
+  isComplete() {
+    return this.have.isComplete();
+  }
+
+  /** Puts a requested piece back up for grabs, behind every cursor. */
+  private free(index: number) {
+    this.inFlight.delete(index);
+    this.cursors.clear();
+  }
+
+  /** Orders the missing pieces rarest first; ties keep file order. */
+  private rank() {
+    if (this.order) return this.order;
+
+    const rarity = new Uint32Array(this.have.size);
+    this.sources.forEach((source) => {
+      for (let index = 0; index < rarity.length; index++) {
+        if (source.has(index)) rarity[index]++;
+      }
+    });
+    const order: number[] = [];
+    for (let index = 0; index < rarity.length; index++) {
+      if (rarity[index] > 0 && !this.have.has(index)) order.push(index);
+    }
+    // Ties keep file order so sources stream mostly sequential ranges
+    order.sort((a, b) => rarity[a] - rarity[b] || a - b);
+
+    this.cursors.clear();
+    return (this.order = order);
+  }
+}
+
+type Holding<T> = {
+  metadata: T;
+  holders: Map<string, Bitfield>;
+};
+
+/** Who in the room holds which pieces of each file, from `have` and `catalog` messages. */
+export class Availability<T> {
+  private files = new Map<string, Holding<T>>();
+
+  register(fileId: string, metadata: T, peerId: string, bitfield: Bitfield) {
+    const entry = this.files.get(fileId) ?? {
+      metadata,
+      holders: new Map<string, Bitfield>(),
+    };
+    entry.holders.set(peerId, bitfield);
+    this.files.set(fileId, entry);
+  }
+
+  /** Drops a peer from every file, e.g. once it left. */
+  forget(peerId: string) {
+    this.files.forEach((entry) => entry.holders.delete(peerId));
+  }
+
+  get(fileId: string): Holding<T> | undefined {
+    return this.files.get(fileId);
+  }
+
+  /** Files someone still holds, with how many holders each has. */
+  list() {
+    return Array.from(this.files.values())
+      .filter((entry) => entry.holders.size > 0)
+      .map((entry) => ({
+        metadata: entry.metadata,
+        holders: entry.holders.size,
+      }));
+  }
+
+  clear() {
+    this.files.clear();
+  }
+}
+
+/**
+ * A file fetched piece by piece from every room member that holds it.
+ * Pieces are requested with `request` messages and arrive as chunks.
+ */
+export class SwarmDownload<T extends { fileId: string }> {
+  paused = false;
+  private readonly scheduler: PieceScheduler;
+  private readonly timer: ReturnType<typeof setInterval>;
+
+  constructor(
+    readonly metadata: T,
+    have: Bitfield,
+    private readonly holders: () => Map<string, Bitfield> | undefined,
+    private readonly connectionOf: (
+      peerId: string,
+    ) => DataConnection | undefined,
+  ) {
+    this.scheduler = new PieceScheduler(have);
+    this.timer = setInterval(() => {
+      this.scheduler.expire();
+      this.pump();
+    }, SWARM_TICK);
+  }
+
+  /** Hands every holder as many requests as its free slots allow. */
+  pump() {
+    const holders = this.holders();
+    if (!holders || this.paused) return;
+
+    const { fileId } = this.metadata;
+    holders.forEach((bitfield, peerId) => {
+      const conn = this.connectionOf(peerId);
+      if (!conn?.open) {
+        this.scheduler.removeSource(peerId);
+        return;
+      }
+      this.scheduler.setSource(peerId, bitfield);
+      const indices = this.scheduler.next(peerId);
+      if (indices.length > 0) {
+        conn.send({ type: 'request', payload: { fileId, indices } });
+      }
+    });
+  }
+
+  /** Marks a verified piece as stored; returns false for duplicates. */
+  received(index: number) {
+    return this.scheduler.received(index);
+  }
+
+  /** Asks someone else for a piece, e.g. after a bad hash. */
+  retry(index: number) {
+    this.scheduler.release(index);
+    this.pump();
+  }
+
+  /** Stops asking a holder that left; its pieces go to the others. */
+  removeSource(peerId: string) {
+    this.scheduler.removeSource(peerId);
+    this.pump();
+  }
+
+  isComplete() {
+    return this.scheduler.isComplete();
+  }
+
+  stop() {
+    clearInterval(this.timer);
+  }
+}
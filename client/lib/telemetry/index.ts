@@ -0,0 +1,124 @@
+import type { DataConnection } from 'peerjs';
+
+// Current speed is averaged over this much recent history
+const SPEED_WINDOW = 3000;
+
+export type TransferRate = {
+  // Bytes per second over the last few seconds
+  current: number;
+  // Bytes per second since the transfer (or resume) started
+  average: number;
+  // Seconds left at the current speed, null until there is a speed
+  eta: number | null;
+};
+
+/** Tracks bytes over time for one transfer to derive its speed and ETA. */
+export class TransferMeter {
+  private readonly startedAt = Date.now();
+  private readonly startBytes: number;
+  private bytes: number;
+  private samples: { at: number; bytes: number }[] = [];
+
+  constructor(
+    private readonly total: number,
+    done = 0,
+  ) {
+    this.bytes = done;
+    this.startBytes = done;
+    this.samples.push({ at: this.startedAt, bytes: done });
+  }
+
+  record(bytes: number) {
+    const now = Date.now();
+    this.bytes += bytes;
+    this.samples.push({ at: now, bytes: this.bytes });
+    // Keep one sample older than the window as the baseline
+    while (this.samples.length > 2 && now - this.samples[1].at > SPEED_WINDOW) {
+      this.samples.shift();
+    }
+  }
+
+  get rate(): TransferRate {
+    const now = Date.now();
+    const first = this.samples[0];
+    const last = this.samples[this.samples.length - 1];
+    const window = (last.at - first.at) / 1000;
+    const current = window > 0 ? (last.bytes - first.bytes) / window : 0;
+    const elapsed = (now - this.startedAt) / 1000;
+    const average = elapsed > 0 ? (this.bytes - this.startBytes) / elapsed : 0;
+    const remaining = Math.max(0, this.total - this.bytes);
+
+    return {
+      current,
+      average,
+      eta: current > 0 ? remaining / current : null,
+    };
+  }
+}
+
+/** What getStats reports for the transport under one data connection. */
+export type ConnectionStats = {
+  // host, srflx, prflx or relay for each end of the selected candidate pair
+  localType: string | null;
+  remoteType: string | null;
+  protocol: string | null;
+  // Milliseconds
+  rtt: number | null;
+  bytesSent: number;
+  bytesReceived: number;
+  // Queued in the DataChannel but not yet handed to SCTP
+  buffered: number;
+};
+
+type CandidateStats = RTCStats & {
+  candidateType?: string;
+  protocol?: string;
+};
+
+export async function readConnectionStats(
+  conn: DataConnection,
+): Promise<ConnectionStats | null> {
+  const pc = conn.peerConnection;
+  if (!pc) return null;
+
+  const report = await pc.getStats();
+  let pair: RTCIceCandidatePairStats | null = null;
+  report.forEach((stat) => {
+    if (stat.type === 'transport' && stat.selectedCandidatePairId) {
+      pair = report.get(stat.selectedCandidatePairId) ?? pair;
+    }
+  });
+  // Firefox has no transport stats but flags the selected pair itself
+  if (!pair) {
+    report.forEach((stat) => {
+      if (
+        stat.type === 'candidate-pair' &&
+        stat.state === 'succeeded' &&
+        (stat.selected || stat.nominated)
+      ) {
+        pair = stat;
+      }
+    });
+  }
+
+  const selected = pair as RTCIceCandidatePairStats | null;
+  const local = selected
+    ? (report.get(selected.localCandidateId) as CandidateStats | undefined)
+    : undefined;
+  const remote = selected
+    ? (report.get(selected.remoteCandidateId) as CandidateStats | undefined)
+    : undefined;
+
+  return {
+    localType: local?.candidateType ?? null,
+    remoteType: remote?.candidateType ?? null,
+    protocol: local?.protocol ?? null,
+    rtt:
+      typeof selected?.currentRoundTripTime === 'number'
+        ? selected.currentRoundTripTime * 1000
+        : null,
+    bytesSent: selected?.bytesSent ?? 0,
+    bytesReceived: selected?.bytesReceived ?? 0,
+    buffered: conn.dataChannel?.bufferedAmount ?? 0,
+  };
+}
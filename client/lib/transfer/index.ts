@@ -0,0 +1,356 @@
+import type { DataConnection } from 'peerjs';
+
+// Pause a connection once this much is queued in its RTCDataChannel and
+// resume when it drains below the low-water mark.
+export const BUFFER_HIGH_WATER_MARK = 4 * 1024 * 1024; // 4MB
+export const BUFFER_LOW_WATER_MARK = 1024 * 1024; // 1MB
+
+// peerjs keeps its own JS-side buffer without emitting events, so poll as a fallback
+const DRAIN_POLL_INTERVAL = 50;
+
+/**
+ * Produces the next message for a lane, or null once the stream is done.
+ * Relayed streams return undefined while they wait for data from upstream.
+ */
+export type MessageProducer = () => Promise<unknown | null | undefined>;
+
+// Each node of a relay tree uploads to at most this many peers
+export const RELAY_FANOUT = 3;
+
+/** A peer in a relay tree and the subtree it forwards chunks to. */
+export type RelayNode = {
+  peerId: string;
+  relayTo: RelayNode[];
+};
+
+/**
+ * Arranges peers into a breadth-first tree where the sender and every relay
+ * upload to at most `fanout` peers. Returns the sender's direct children.
+ */
+export function buildRelayTree(
+  peerIds: string[],
+  fanout = RELAY_FANOUT,
+): RelayNode[] {
+  const nodes = peerIds.map((peerId) => ({ peerId, relayTo: [] }) as RelayNode);
+  nodes.slice(fanout).forEach((node, i) => {
+    nodes[Math.floor(i / fanout)].relayTo.push(node);
+  });
+  return nodes.slice(0, fanout);
+}
+
+/** Lists every peer in a set of subtrees. */
+export const flattenRelayTree = (nodes: RelayNode[]): string[] =>
+  nodes.flatMap((node) => [node.peerId, ...flattenRelayTree(node.relayTo)]);
+
+type Lane = {
+  next: MessageProducer;
+  resolve: () => void;
+  reject: (error: Error) => void;
+};
+
+const isCongested = (conn: DataConnection) => {
+  const buffered = (conn as DataConnection & { bufferSize?: number })
+    .bufferSize;
+  return (
+    (conn.dataChannel?.bufferedAmount ?? 0) > BUFFER_HIGH_WATER_MARK ||
+    (buffered ?? 0) > 0
+  );
+};
+
+/**
+ * Paces outgoing streams by DataChannel backpressure. Each connection gets
+ * one message per round, and streams sharing a connection take turns, so a
+ * slow peer never holds up the others and nothing piles up in memory.
+ */
+export class SendScheduler {
+  private lanes = new Map<DataConnection, Lane[]>();
+  private pumping = false;
+  private wake: (() => void) | null = null;
+
+  /** Streams messages from `next` to `conn`; resolves when the producer is exhausted. */
+  enqueue(conn: DataConnection, next: MessageProducer): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const lanes = this.lanes.get(conn) ?? [];
+      lanes.push({ next, resolve, reject });
+      this.lanes.set(conn, lanes);
+      void this.pump();
+    });
+  }
+
+  /** Lets idle lanes retry right away, e.g. when relayed data arrives. */
+  notify() {
+    this.wake?.();
+  }
+
+  /** Fails every stream queued for a connection, e.g. when it closes. */
+  drop(conn: DataConnection) {
+    const lanes = this.lanes.get(conn);
+    this.lanes.delete(conn);
+    lanes?.forEach((lane) => lane.reject(new Error('Connection closed')));
+  }
+
+  private async pump() {
+    if (this.pumping) return;
+    this.pumping = true;
+
+    try {
+      while (this.lanes.size > 0) {
+        let progressed = false;
+
+        for (const [conn, lanes] of Array.from(this.lanes)) {
+          if (!conn.open) {
+            this.drop(conn);
+            continue;
+          }
+          if (isCongested(conn)) continue;
+
+          // Round-robin between streams that share this connection
+          const lane = lanes.shift();
+          if (!lane) continue;
+
+          try {
+            const message = await lane.next();
+            // drop() may have run while the producer was busy; the lane was
+            // already taken out of the rotation, so it is settled here
+            if (this.lanes.get(conn) !== lanes || !conn.open) {
+              lane.reject(new Error('Connection closed'));
+              continue;
+            }
+            if (message === null) {
+              lane.resolve();
+            } else if (message === undefined) {
+              // Nothing to send yet; keep the lane's place in the rotation
+              lanes.push(lane);
+            } else {
+              conn.send(message);
+              lanes.push(lane);
+              progressed = true;
+            }
+          } catch (error) {
+            lane.reject(error as Error);
+          }
+
+          if (lanes.length === 0 && this.lanes.get(conn) === lanes) {
+            this.lanes.delete(conn);
+          }
+        }
+
+        if (!progressed && this.lanes.size > 0) {
+          await this.waitForDrain(Array.from(this.lanes.keys()));
+        }
+      }
+    } finally {
+      this.pumping = false;
+    }
+  }
+
+  private waitForDrain(conns: DataConnection[]) {
+    return new Promise<void>((resolve) => {
+      const channels = conns
+        .map((conn) => conn.dataChannel)
+        .filter((channel): channel is RTCDataChannel => !!channel);
+
+      const done = () => {
+        this.wake = null;
+        clearTimeout(timer);
+        channels.forEach((channel) =>
+          channel.removeEventListener('bufferedamountlow', done),
+        );
+        resolve();
+      };
+
+      this.wake = done;
+      const timer = setTimeout(done, DRAIN_POLL_INTERVAL);
+      channels.forEach((channel) => {
+        channel.bufferedAmountLowThreshold = BUFFER_LOW_WATER_MARK;
+        channel.addEventListener('bufferedamountlow', done);
+      });
+    });
+  }
+}
+
+// Lets the buttons and the peer's control messages steer a running stream
+export type StreamControl = {
+  paused: boolean;
+  cancelled: boolean;
+};
+
+const streamKey = (fileId: string, peerId: string) => `${fileId}:${peerId}`;
+
+/** Pause and cancel state of each stream we send, keyed by file and peer. */
+export class StreamControls {
+  private controls = new Map<string, StreamControl>();
+
+  /** Registers a stream; its producer checks the returned control. */
+  open(fileId: string, peerId: string): StreamControl {
+    const control = { paused: false, cancelled: false };
+    this.controls.set(streamKey(fileId, peerId), control);
+    return control;
+  }
+
+  close(fileId: string, peerId: string) {
+    this.controls.delete(streamKey(fileId, peerId));
+  }
+
+  has(fileId: string, peerId: string) {
+    return this.controls.has(streamKey(fileId, peerId));
+  }
+
+  /** Returns false when there is no such stream or it was cancelled. */
+  setPaused(fileId: string, peerId: string, paused: boolean) {
+    const control = this.controls.get(streamKey(fileId, peerId));
+    if (!control || control.cancelled) return false;
+    control.paused = paused;
+    return true;
+  }
+
+  /** Returns false when there is no such stream or it was already cancelled. */
+  cancel(fileId: string, peerId: string) {
+    const control = this.controls.get(streamKey(fileId, peerId));
+    if (!control || control.cancelled) return false;
+    control.cancelled = true;
+    return true;
+  }
+}
+
+// Chunk sizes stay within what every browser's SCTP stack accepts in one message
+export const MIN_CHUNK_SIZE = 16 * 1024; // 16KB
+export const DEFAULT_CHUNK_SIZE = 64 * 1024; // 64KB
+export const MAX_CHUNK_SIZE = 256 * 1024; // 256KB
+// Room for the encryption tag and message framing around a chunk
+const MESSAGE_HEADROOM = 1024;
+// Aim for chunks that take about this long to go out at the measured rate
+const TARGET_CHUNK_TIME = 20;
+// Above this round trip the link is treated as lossy and kept to small chunks
+const HIGH_RTT = 250;
+const THROUGHPUT_WINDOW = 2000;
+const ADJUST_INTERVAL = 500;
+const STATS_INTERVAL = 1000;
+
+/** What a sender currently knows about one receiving connection. */
+export type LinkStats = {
+  chunkSize: number;
+  // Bytes per second the receiver acknowledged over the last few seconds
+  throughput: number;
+  // Round trip of the selected ICE candidate pair, in milliseconds
+  rtt: number | null;
+};
+
+const messageSizeLimit = (conn: DataConnection) => {
+  const max = conn.peerConnection?.sctp?.maxMessageSize;
+  if (!max || !Number.isFinite(max)) return MAX_CHUNK_SIZE;
+  return Math.max(
+    MIN_CHUNK_SIZE,
+    Math.min(MAX_CHUNK_SIZE, max - MESSAGE_HEADROOM),
+  );
+};
+
+/**
+ * Picks the chunk size for one stream from how fast the receiver
+ * acknowledges chunks. Fast links grow towards the SCTP limit to cut
+ * per-message overhead; jittery or high-latency links shrink, so a
+ * retransmitted chunk holds up less of the stream.
+ */
+export class ChunkSizer {
+  size: number;
+  private readonly maxSize: number;
+  private sentAt = new Map<number, { at: number; bytes: number }>();
+  private acks: { at: number; bytes: number }[] = [];
+  private latency: number | null = null;
+  private jitter = 0;
+  private rtt: number | null = null;
+  private adjustedAt = 0;
+  private probedAt = 0;
+
+  constructor(private readonly conn: DataConnection) {
+    this.maxSize = messageSizeLimit(conn);
+    this.size = Math.min(DEFAULT_CHUNK_SIZE, this.maxSize);
+  }
+
+  sent(index: number, bytes: number) {
+    this.sentAt.set(index, { at: Date.now(), bytes });
+  }
+
+  /** Records the receiver's acknowledgement of chunk `index`. */
+  acked(index: number) {
+    const sent = this.sentAt.get(index);
+    if (!sent) return;
+    this.sentAt.delete(index);
+
+    const now = Date.now();
+    const sample = now - sent.at;
+    if (this.latency === null) {
+      this.latency = sample;
+    } else {
+      this.jitter = 0.8 * this.jitter + 0.2 * Math.abs(sample - this.latency);
+      this.latency = 0.8 * this.latency + 0.2 * sample;
+    }
+    this.acks.push({ at: now, bytes: sent.bytes });
+    this.acks = this.acks.filter((ack) => now - ack.at <= THROUGHPUT_WINDOW);
+
+    if (now - this.adjustedAt >= ADJUST_INTERVAL) {
+      this.adjustedAt = now;
+      this.adjust();
+    }
+  }
+
+  /** Refreshes the round trip from getStats; cheap to call once per chunk. */
+  async probe() {
+    const pc = this.conn.peerConnection;
+    const now = Date.now();
+    if (!pc || now - this.probedAt < STATS_INTERVAL) return;
+    this.probedAt = now;
+
+    try {
+      const report = await pc.getStats();
+      report.forEach((stat) => {
+        if (
+          stat.type === 'candidate-pair' &&
+          stat.state === 'succeeded' &&
+          (stat.nominated || stat.selected) &&
+          typeof stat.currentRoundTripTime === 'number'
+        ) {
+          this.rtt = stat.currentRoundTripTime * 1000;
+        }
+      });
+    } catch {
+      // Stats are best effort; sizing falls back to ack timings alone
+    }
+  }
+
+  /** Bytes sent on this stream that the receiver has not acknowledged yet. */
+  get inFlight() {
+    let bytes = 0;
+    this.sentAt.forEach((sent) => (bytes += sent.bytes));
+    return bytes;
+  }
+
+  get stats(): LinkStats {
+    return {
+      chunkSize: this.size,
+      throughput: this.throughput(),
+      rtt: this.rtt,
+    };
+  }
+
+  private throughput() {
+    if (this.acks.length < 2) return 0;
+    const elapsed = this.acks[this.acks.length - 1].at - this.acks[0].at;
+    const bytes = this.acks.slice(1).reduce((sum, ack) => sum + ack.bytes, 0);
+    return elapsed > 0 ? (bytes / elapsed) * 1000 : 0;
+  }
+
+  private adjust() {
+    const throughput = this.throughput();
+    if (throughput === 0 || this.latency === null) return;
+
+    let target = (throughput * TARGET_CHUNK_TIME) / 1000;
+    const unstable =
+      this.jitter > this.latency / 2 || (this.rtt ?? 0) > HIGH_RTT;
+    if (unstable) target = Math.min(target, this.size / 2);
+
+    // Powers of two keep the sizes few and the changes easy to follow
+    const steps = Math.floor(Math.log2(Math.max(1, target / MIN_CHUNK_SIZE)));
+    this.size = Math.min(this.maxSize, MIN_CHUNK_SIZE * 2 ** steps);
+  }
+}
@@ -0,0 +1,24 @@
+import { fileURLToPath } from 'node:url';
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  resolve: {
+    alias: { '@': fileURLToPath(new URL('.', import.meta.url)) },
+  },
+  test: {
+    environment: 'node',
+    // env/server.ts validates these as soon as a server module loads
+    env: {
+      NODE_ENV: 'development',
+      NEXT_PUBLIC_PEER_HOST: 'localhost',
+      NEXT_PUBLIC_PEER_PORT: '9000',
+      NEXT_PUBLIC_PEER_PATH: '/',
+      NEXT_PUBLIC_PEER_SECURE: 'false',
+      NEXT_PUBLIC_STUN_URL: 'stun:localhost:3478',
+      NEXT_PUBLIC_STUN_USERNAME: '',
+      NEXT_PUBLIC_STUN_CREDENTIAL: '',
+      ROOM_STORE: 'memory',
+      PEER_TTL_SECONDS: '30',
+    },
+  },
+});